@@ -22,6 +22,11 @@ contract TestUSDC is ERC20, ERC20Permit {
             "TransferWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
         );
 
+    bytes32 public constant RECEIVE_WITH_AUTHORIZATION_TYPEHASH =
+        keccak256(
+            "ReceiveWithAuthorization(address from,address to,uint256 value,uint256 validAfter,uint256 validBefore,bytes32 nonce)"
+        );
+
     constructor() ERC20("Test USDC", "tUSDC") ERC20Permit("Test USDC") {
         // Mint 1 million test USDC to deployer
         _mint(msg.sender, 1_000_000 * 10 ** decimals());
@@ -93,7 +98,7 @@ contract TestUSDC is ERC20, ERC20Permit {
 
     /**
      * @dev EIP-3009: Receive a transfer with a signed authorization
-     * Allows the recipient to submit the authorization
+     * Only the recipient can submit it, so it cannot be front-run
      */
     function receiveWithAuthorization(
         address from,
@@ -113,7 +118,7 @@ contract TestUSDC is ERC20, ERC20Permit {
 
         bytes32 structHash = keccak256(
             abi.encode(
-                TRANSFER_WITH_AUTHORIZATION_TYPEHASH,
+                RECEIVE_WITH_AUTHORIZATION_TYPEHASH,
                 from,
                 to,
                 value,
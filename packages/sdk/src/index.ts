@@ -36,6 +36,8 @@ export interface GasStationConfig {
   chainId: number;
   /** USDC contract address (optional, defaults based on chainId) */
   usdcAddress?: string;
+  /** "upto" pays only for gas actually used when the server offers it (default "exact") */
+  paymentScheme?: "exact" | "upto";
 }
 
 export interface ExecuteParams {
@@ -45,10 +47,25 @@ export interface ExecuteParams {
   data?: string;
   /** Value in wei (for payable functions) */
   value?: bigint;
-  /** Gas limit (default: 100000) */
+  /** Gas limit (default: estimated by POST /meta/estimate) */
   gasLimit?: bigint;
 }
 
+export interface MetaEstimate {
+  /** Recommended ForwardRequest gas (the inner call's limit) */
+  gas: string;
+  /** Gas limit of the relayer's forwarder transaction */
+  outerGas: string;
+  /** "state_override" when execute() was simulated, "floor" when computed */
+  method: "state_override" | "floor";
+  /** Forwarder nonce the estimate used */
+  nonce: string;
+  priority: "slow" | "normal" | "fast";
+  /** Price /meta/relay will quote for this request */
+  priceUSDC: string;
+  estimatedTime: string;
+}
+
 export interface ExecuteResult {
   /** Whether the inner call succeeded */
   success: boolean;
@@ -56,10 +73,39 @@ export interface ExecuteResult {
   txHash: string;
   /** USDC payment transaction hash */
   paymentTxHash?: string;
+  /** Settlement decoded from the X-PAYMENT-RESPONSE header */
+  settlement?: PaymentSettlement;
+  /** Actual charge when paid with the "upto" scheme */
+  charge?: UptoCharge;
+  /** Observed time to inclusion, and fee bumps it needed */
+  inclusion?: { inclusionMs: number; bumps: number };
   /** Return data from the call */
   result?: string;
 }
 
+/** What an "upto" payment was actually charged (the rest is refunded) */
+export interface UptoCharge {
+  scheme: "upto";
+  /** USDC base units authorised */
+  maxAmount: string;
+  /** USDC base units charged for gas used */
+  chargedAmount: string;
+  chargedUSDC: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+}
+
+/** x402 settlement reported in the X-PAYMENT-RESPONSE header */
+export interface PaymentSettlement {
+  success: boolean;
+  /** USDC payment transaction hash */
+  transaction: string;
+  /** CAIP-2 network, e.g. eip155:338 */
+  network: string;
+  /** Address that paid */
+  payer: string;
+}
+
 export interface Estimate {
   /** Estimated gas units */
   gasEstimate: string;
@@ -69,6 +115,43 @@ export interface Estimate {
   croPrice: number;
   /** Final price in USDC */
   priceUSDC: string;
+  /** Markup multiplier while the relayer pool is busy or low on CRO (1 = none) */
+  surgeMultiplier?: number;
+  /** How the price is built: gas × (baseFee + priorityFee) × CRO/USD × markup × surge */
+  feeModel?: string;
+}
+
+/** x402 payment requirements returned in a 402 response */
+export interface PaymentRequirements {
+  scheme: string;
+  network: string;
+  asset: string;
+  payTo: string;
+  maxAmountRequired: string;
+  description?: string;
+  /** EIP-712 domain and message type the USDC authorization must use */
+  extra?: {
+    name?: string;
+    version?: string;
+    primaryType?: "TransferWithAuthorization" | "ReceiveWithAuthorization";
+  };
+}
+
+/** EIP-712 signed price quote returned with a 402, redeemable by quoteId */
+export interface SignedQuote {
+  quoteId: string;
+  /** Request (or batch) hash the quote is bound to */
+  requestHash: string;
+  /** Quoted price in USDC base units */
+  price: string;
+  gas: string;
+  /** Gas price in wei */
+  gasPrice: string;
+  priority: string;
+  /** Unix seconds */
+  validUntil: number;
+  signature: string;
+  signer: string;
 }
 
 // ============================================================================
@@ -97,6 +180,7 @@ export class GasStation {
     this.config = {
       ...config,
       usdcAddress,
+      paymentScheme: config.paymentScheme ?? "exact",
     };
   }
 
@@ -115,6 +199,31 @@ export class GasStation {
     return response.json() as Promise<Estimate>;
   }
 
+  /**
+   * Gas and price for a meta-transaction before signing it. The server
+   * simulates the forwarder call, so forwarder overhead, the appended
+   * sender and the 63/64 rule are included.
+   */
+  async estimateMeta(params: ExecuteParams): Promise<MetaEstimate> {
+    const response = await fetch(`${this.config.apiUrl}/meta/estimate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        request: {
+          from: this.config.wallet.address,
+          to: params.to,
+          value: (params.value ?? 0n).toString(),
+          data: params.data ?? "0x",
+        },
+      }),
+    });
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { message?: string };
+      throw new Error(`Meta estimate failed: ${error.message ?? response.statusText}`);
+    }
+    return response.json() as Promise<MetaEstimate>;
+  }
+
   /**
    * Execute a transaction through the Gas Station
    * Agent signs meta-transaction and pays with USDC
@@ -151,12 +260,13 @@ export class GasStation {
   private async buildRequest(params: ExecuteParams) {
     const nonce = await this.getNonce();
     const deadline = Math.floor(Date.now() / 1000) + 3600;
+    const gas = params.gasLimit ?? BigInt((await this.estimateMeta(params)).gas);
 
     return {
       from: this.config.wallet.address,
       to: params.to,
       value: (params.value ?? 0n).toString(),
-      gas: (params.gasLimit ?? 100000n).toString(),
+      gas: gas.toString(),
       nonce,
       deadline: deadline.toString(),
       data: params.data ?? "0x",
@@ -165,7 +275,18 @@ export class GasStation {
 
   private async signRequest(request: any): Promise<string> {
     const { domain, types } = await this.getMetaDomain();
-    const value = {
+    return this.config.wallet.signTypedData(domain, types, this.toTypedRequest(request));
+  }
+
+  // The server requires the request's EIP-712 hash as the USDC authorization
+  // nonce, binding the payment to this request
+  private async hashRequest(request: any): Promise<string> {
+    const { domain, types } = await this.getMetaDomain();
+    return ethers.TypedDataEncoder.hash(domain, types, this.toTypedRequest(request));
+  }
+
+  private toTypedRequest(request: any) {
+    return {
       from: request.from,
       to: request.to,
       value: BigInt(request.value),
@@ -174,7 +295,6 @@ export class GasStation {
       deadline: BigInt(request.deadline),
       data: request.data,
     };
-    return this.config.wallet.signTypedData(domain, types, value);
   }
 
   private async submitWithPayment(request: any, signature: string): Promise<ExecuteResult> {
@@ -193,23 +313,37 @@ export class GasStation {
 
     // Parse 402 and prepare payment
     const x402Response = await initialResponse.json() as {
-      x402: { accepts: Array<{ payTo: string; maxAmountRequired: string; network: string }> };
+      x402: { accepts: PaymentRequirements[] };
+      signedQuote?: SignedQuote;
     };
-    const paymentInfo = x402Response.x402.accepts[0];
+    const { accepts } = x402Response.x402;
+    const paymentInfo =
+      accepts.find((a) => a.scheme === this.config.paymentScheme) ?? accepts[0];
+
+    // Check the signed quote before paying
+    const requestHash = await this.hashRequest(request);
+    const { signedQuote } = x402Response;
+    if (signedQuote) {
+      await this.verifyQuote(signedQuote, requestHash, paymentInfo);
+    }
 
     // Create and sign USDC authorization
-    const authorization = this.createUsdcAuth(paymentInfo.payTo, BigInt(paymentInfo.maxAmountRequired));
-    const usdcSig = await this.signUsdcAuth(authorization);
-    const paymentHeader = this.encodePayment(authorization, usdcSig, paymentInfo.network);
+    const authorization = this.createUsdcAuth(
+      paymentInfo.payTo,
+      BigInt(paymentInfo.maxAmountRequired),
+      requestHash
+    );
+    const usdcSig = await this.signUsdcAuth(authorization, paymentInfo);
+    const paymentHeader = this.encodePayment(authorization, usdcSig, paymentInfo);
 
-    // Retry with payment
+    // Retry with payment, redeeming the quote so the price can't move
     const paidResponse = await fetch(`${this.config.apiUrl}/meta/relay`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "X-Payment": paymentHeader,
       },
-      body: JSON.stringify({ request, signature }),
+      body: JSON.stringify({ request, signature, quoteId: signedQuote?.quoteId }),
     });
 
     if (!paidResponse.ok) {
@@ -217,29 +351,68 @@ export class GasStation {
       throw new Error(error.message || error.error || "Unknown error");
     }
 
-    return paidResponse.json() as Promise<ExecuteResult>;
+    const result = await paidResponse.json() as ExecuteResult;
+    const settlement = this.decodePaymentResponse(paidResponse.headers.get("X-PAYMENT-RESPONSE"));
+    return settlement ? { ...result, settlement } : result;
+  }
+
+  /**
+   * Verify a signed quote offline against the signer published at /meta/domain
+   */
+  async verifyQuote(
+    quote: SignedQuote,
+    requestHash: string,
+    paymentInfo?: PaymentRequirements
+  ): Promise<void> {
+    const { quote: quoteInfo } = await this.getMetaDomain();
+    if (!quoteInfo) return; // Server predates signed quotes
+
+    const signer = ethers.verifyTypedData(quoteInfo.domain, quoteInfo.types, {
+      quoteId: quote.quoteId,
+      requestHash: quote.requestHash,
+      price: BigInt(quote.price),
+      gas: BigInt(quote.gas),
+      gasPrice: BigInt(quote.gasPrice),
+      priority: quote.priority,
+      validUntil: BigInt(quote.validUntil),
+    }, quote.signature);
+
+    if (signer.toLowerCase() !== quoteInfo.signer.toLowerCase()) {
+      throw new Error("Quote was not signed by the gas station");
+    }
+    if (quote.requestHash.toLowerCase() !== requestHash.toLowerCase()) {
+      throw new Error("Quote is for a different request");
+    }
+    if (quote.validUntil < Math.floor(Date.now() / 1000)) {
+      throw new Error("Quote expired");
+    }
+    if (paymentInfo && BigInt(quote.price) !== BigInt(paymentInfo.maxAmountRequired)) {
+      throw new Error("Payment requirements do not match the quoted price");
+    }
   }
 
-  private createUsdcAuth(to: string, value: bigint) {
+  private createUsdcAuth(to: string, value: bigint, nonce: string) {
     return {
       from: this.config.wallet.address,
       to,
       value: value.toString(),
       validAfter: (Math.floor(Date.now() / 1000) - 60).toString(),
       validBefore: (Math.floor(Date.now() / 1000) + 3600).toString(),
-      nonce: ethers.hexlify(ethers.randomBytes(32)),
+      nonce,
     };
   }
 
-  private async signUsdcAuth(auth: any): Promise<string> {
+  private async signUsdcAuth(auth: any, paymentInfo: PaymentRequirements): Promise<string> {
+    // Domain and message type follow the server's payment requirements
     const domain = {
-      name: "Test USDC",
-      version: "1",
+      name: paymentInfo.extra?.name ?? "Test USDC",
+      version: paymentInfo.extra?.version ?? "1",
       chainId: this.config.chainId,
       verifyingContract: this.config.usdcAddress,
     };
+    const primaryType = paymentInfo.extra?.primaryType ?? "TransferWithAuthorization";
     const types = {
-      TransferWithAuthorization: [
+      [primaryType]: [
         { name: "from", type: "address" },
         { name: "to", type: "address" },
         { name: "value", type: "uint256" },
@@ -259,14 +432,23 @@ export class GasStation {
     return this.config.wallet.signTypedData(domain, types, value);
   }
 
-  private encodePayment(auth: any, sig: string, network: string): string {
+  private encodePayment(auth: any, sig: string, paymentInfo: PaymentRequirements): string {
     return Buffer.from(JSON.stringify({
       version: 1,
-      scheme: "exact",
-      network,
+      scheme: paymentInfo.scheme,
+      network: paymentInfo.network,
       payload: { signature: sig, authorization: auth },
     })).toString("base64");
   }
+
+  private decodePaymentResponse(header: string | null): PaymentSettlement | undefined {
+    if (!header) return undefined;
+    try {
+      return JSON.parse(Buffer.from(header, "base64").toString("utf-8")) as PaymentSettlement;
+    } catch {
+      return undefined;
+    }
+  }
 }
 
 // Default export
@@ -0,0 +1,124 @@
+/**
+ * Build the simulation forwarder used by POST /meta/estimate
+ * Same code and storage layout as MinimalForwarder (scripts/deploy-forwarder.ts),
+ * except verify() recovers the signer but does not enforce it. The gas
+ * estimator swaps it in at FORWARDER_ADDRESS with an eth_estimateGas state
+ * override, so unsigned requests can be simulated against real state.
+ * Never deployed.
+ *
+ * Usage: npm run build:sim-forwarder
+ */
+
+import { writeFileSync } from "fs";
+import path from "path";
+import solc from "solc";
+
+const CONTRACT_SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract SimulationForwarder {
+    struct ForwardRequest {
+        address from;
+        address to;
+        uint256 value;
+        uint256 gas;
+        uint256 nonce;
+        uint256 deadline;
+        bytes data;
+    }
+
+    bytes32 public constant TYPEHASH = keccak256(
+        "ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint256 deadline,bytes data)"
+    );
+
+    bytes32 public DOMAIN_SEPARATOR;
+    mapping(address => uint256) public nonces;
+
+    event Executed(address indexed from, address indexed to, bool success, bytes result);
+
+    function getNonce(address from) external view returns (uint256) {
+        return nonces[from];
+    }
+
+    function verify(ForwardRequest calldata req, bytes calldata signature) public view returns (bool) {
+        bytes32 structHash = keccak256(
+            abi.encode(TYPEHASH, req.from, req.to, req.value, req.gas, req.nonce, req.deadline, keccak256(req.data))
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\\x19\\x01", DOMAIN_SEPARATOR, structHash));
+
+        (bytes32 r, bytes32 s, uint8 v) = splitSignature(signature);
+        // Recovered so the simulation pays for it, but not checked against req.from
+        address signer = ecrecover(digest, v, r, s);
+
+        return (signer == req.from || signer != req.from) &&
+               nonces[req.from] == req.nonce &&
+               block.timestamp <= req.deadline;
+    }
+
+    function execute(ForwardRequest calldata req, bytes calldata signature)
+        external
+        payable
+        returns (bool success, bytes memory result)
+    {
+        require(verify(req, signature), "Invalid signature or request");
+
+        nonces[req.from]++;
+
+        (success, result) = req.to.call{gas: req.gas, value: req.value}(
+            abi.encodePacked(req.data, req.from)
+        );
+
+        emit Executed(req.from, req.to, success, result);
+
+        if (address(this).balance > 0) {
+            payable(msg.sender).transfer(address(this).balance);
+        }
+    }
+
+    function splitSignature(bytes memory sig) internal pure returns (bytes32 r, bytes32 s, uint8 v) {
+        require(sig.length == 65, "Invalid signature length");
+        assembly {
+            r := mload(add(sig, 32))
+            s := mload(add(sig, 64))
+            v := byte(0, mload(add(sig, 96)))
+        }
+    }
+
+    receive() external payable {}
+}
+`;
+
+function build() {
+  console.log("Compiling SimulationForwarder...");
+
+  const input = {
+    language: "Solidity",
+    sources: { "SimulationForwarder.sol": { content: CONTRACT_SOURCE } },
+    settings: {
+      // Same settings as the deployed forwarder, so gas matches
+      outputSelection: { "*": { "*": ["evm.deployedBytecode.object"] } },
+      optimizer: { enabled: true, runs: 200 }
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+
+  if (output.errors) {
+    const errors = output.errors.filter((e: any) => e.severity === "error");
+    if (errors.length > 0) {
+      console.error("Compilation errors:", errors);
+      throw new Error("Compilation failed");
+    }
+  }
+
+  const contract = output.contracts["SimulationForwarder.sol"]["SimulationForwarder"];
+  const file = path.join(process.cwd(), "src/config/SimulationForwarder.json");
+  writeFileSync(
+    file,
+    JSON.stringify({ deployedBytecode: "0x" + contract.evm.deployedBytecode.object }, null, 2) + "\n"
+  );
+  console.log("Runtime bytecode saved to src/config/SimulationForwarder.json");
+}
+
+build();
@@ -0,0 +1,266 @@
+/**
+ * Deploy the Settlement contract for atomic pay-and-execute
+ * Collects the x402 USDC payment (receiveWithAuthorization) and runs the
+ * forwarded meta-transaction in a single transaction.
+ *
+ * Uses USDC_ADDRESS, FORWARDER_ADDRESS and RECEIVING_WALLET (treasury) from .env.
+ * The deployer (RELAYER_PRIVATE_KEY) becomes owner, and every relayer in the
+ * pool is allowed to submit settlements.
+ *
+ * Usage: npm run deploy:settlement
+ */
+
+import { ethers, ContractFactory, Contract } from "ethers";
+import { writeFileSync } from "fs";
+import path from "path";
+import solc from "solc";
+import { env } from "../src/config/env.js";
+import { walletService } from "../src/services/wallet.service.js";
+import { relayerPool } from "../src/services/relayer-pool.service.js";
+
+const CONTRACT_SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC3009 {
+    function receiveWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+    function transfer(address to, uint256 value) external returns (bool);
+}
+
+struct ForwardRequest {
+    address from;
+    address to;
+    uint256 value;
+    uint256 gas;
+    uint256 nonce;
+    uint256 deadline;
+    bytes data;
+}
+
+interface IForwarder {
+    function execute(ForwardRequest calldata req, bytes calldata signature)
+        external
+        payable
+        returns (bool success, bytes memory result);
+}
+
+/**
+ * @title Settlement
+ * @dev Pays for and executes a meta-transaction atomically.
+ * The agent signs ReceiveWithAuthorization to this contract, so only it can
+ * pull the payment. If the forwarder reverts, or the inner call fails while
+ * requireSuccess is set, the whole transaction reverts and nothing is paid.
+ */
+contract Settlement {
+    struct Payment {
+        address from;
+        uint256 value;
+        uint256 validAfter;
+        uint256 validBefore;
+        bytes32 nonce;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    IERC3009 public immutable usdc;
+    IForwarder public immutable forwarder;
+    address public owner;
+    address public treasury;
+    mapping(address => bool) public relayers;
+
+    event Settled(address indexed payer, uint256 value, uint256 callCount, uint256 successCount);
+    event RelayerUpdated(address indexed relayer, bool allowed);
+    event TreasuryUpdated(address indexed treasury);
+
+    error NotOwner();
+    error NotRelayer();
+    error LengthMismatch();
+    error InnerCallFailed(uint256 index, bytes result);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    // Relayers choose requireSuccess, so only they may submit
+    modifier onlyRelayer() {
+        if (!relayers[msg.sender]) revert NotRelayer();
+        _;
+    }
+
+    constructor(address usdc_, address forwarder_, address treasury_) {
+        usdc = IERC3009(usdc_);
+        forwarder = IForwarder(forwarder_);
+        treasury = treasury_;
+        owner = msg.sender;
+        relayers[msg.sender] = true;
+        emit RelayerUpdated(msg.sender, true);
+        emit TreasuryUpdated(treasury_);
+    }
+
+    function settleAndExecute(
+        Payment calldata payment,
+        ForwardRequest calldata req,
+        bytes calldata signature,
+        bool requireSuccess
+    ) external payable onlyRelayer returns (bool success, bytes memory result) {
+        _collect(payment);
+
+        (success, result) = forwarder.execute{value: msg.value}(req, signature);
+        if (requireSuccess && !success) revert InnerCallFailed(0, result);
+
+        _payout(payment);
+        emit Settled(payment.from, payment.value, 1, success ? 1 : 0);
+    }
+
+    function settleAndExecuteBatch(
+        Payment calldata payment,
+        ForwardRequest[] calldata reqs,
+        bytes[] calldata signatures,
+        bool requireSuccess
+    ) external payable onlyRelayer returns (bool[] memory successes) {
+        if (reqs.length != signatures.length) revert LengthMismatch();
+        _collect(payment);
+
+        successes = new bool[](reqs.length);
+        uint256 successCount;
+        for (uint256 i = 0; i < reqs.length; i++) {
+            (bool ok, bytes memory result) = forwarder.execute{value: reqs[i].value}(reqs[i], signatures[i]);
+            if (requireSuccess && !ok) revert InnerCallFailed(i, result);
+            successes[i] = ok;
+            if (ok) successCount++;
+        }
+
+        _payout(payment);
+        emit Settled(payment.from, payment.value, reqs.length, successCount);
+    }
+
+    /// @dev Payment only, for paid routes with nothing to run through the forwarder
+    function settle(Payment calldata payment) external onlyRelayer {
+        _collect(payment);
+        _payout(payment);
+        emit Settled(payment.from, payment.value, 0, 0);
+    }
+
+    function setRelayer(address relayer, bool allowed) external onlyOwner {
+        relayers[relayer] = allowed;
+        emit RelayerUpdated(relayer, allowed);
+    }
+
+    function setTreasury(address treasury_) external onlyOwner {
+        treasury = treasury_;
+        emit TreasuryUpdated(treasury_);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        owner = newOwner;
+    }
+
+    function _collect(Payment calldata p) internal {
+        usdc.receiveWithAuthorization(
+            p.from, address(this), p.value, p.validAfter, p.validBefore, p.nonce, p.v, p.r, p.s
+        );
+    }
+
+    function _payout(Payment calldata p) internal {
+        require(usdc.transfer(treasury, p.value), "Treasury transfer failed");
+
+        // Return call value the forwarder sent back
+        if (address(this).balance > 0) {
+            payable(msg.sender).transfer(address(this).balance);
+        }
+    }
+
+    receive() external payable {}
+}
+`;
+
+async function compile() {
+  console.log("Compiling Settlement...");
+
+  const input = {
+    language: "Solidity",
+    sources: { "Settlement.sol": { content: CONTRACT_SOURCE } },
+    settings: {
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+      optimizer: { enabled: true, runs: 200 }
+    }
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+
+  if (output.errors) {
+    const errors = output.errors.filter((e: any) => e.severity === "error");
+    if (errors.length > 0) {
+      console.error("Compilation errors:", errors);
+      throw new Error("Compilation failed");
+    }
+  }
+
+  const contract = output.contracts["Settlement.sol"]["Settlement"];
+  return { abi: contract.abi, bytecode: "0x" + contract.evm.bytecode.object };
+}
+
+async function deploy() {
+  const { abi, bytecode } = await compile();
+  console.log("Compilation successful!");
+
+  const wallet = walletService.wallet;
+  console.log("Deployer:", wallet.address);
+  const balance = await walletService.rpcProvider.getBalance(wallet.address);
+  console.log("Balance:", ethers.formatEther(balance), "CRO");
+
+  console.log("\nDeploying Settlement...");
+  console.log("  USDC:", env.USDC_ADDRESS);
+  console.log("  Forwarder:", env.FORWARDER_ADDRESS);
+  console.log("  Treasury:", env.RECEIVING_WALLET);
+
+  const factory = new ContractFactory(abi, bytecode, wallet);
+  const contract = await factory.deploy(env.USDC_ADDRESS, env.FORWARDER_ADDRESS, env.RECEIVING_WALLET);
+
+  console.log("Tx hash:", contract.deploymentTransaction()?.hash);
+  await contract.waitForDeployment();
+
+  const address = await contract.getAddress();
+  console.log("\n" + "=".repeat(50));
+  console.log("Settlement deployed to:", address);
+  console.log("=".repeat(50));
+
+  // Allow the rest of the relayer pool to submit settlements
+  await relayerPool.initialize();
+  const settlement = new Contract(address, abi, wallet);
+  for (const relayer of relayerPool.getAddresses()) {
+    if (relayer.toLowerCase() === wallet.address.toLowerCase()) continue;
+    const tx = await settlement.setRelayer(relayer, true);
+    await tx.wait();
+    console.log("Allowed relayer:", relayer);
+  }
+
+  // Save ABI
+  writeFileSync(
+    path.join(process.cwd(), "src/config/Settlement.abi.json"),
+    JSON.stringify(abi, null, 2)
+  );
+  console.log("\nABI saved to src/config/Settlement.abi.json");
+
+  console.log("\n📋 Add to your .env:");
+  console.log(`SETTLEMENT_ADDRESS=${address}`);
+  console.log("PAYMENT_SETTLEMENT_MODE=atomic");
+
+  return address;
+}
+
+deploy()
+  .then(() => process.exit(0))
+  .catch((err) => { console.error(err); process.exit(1); });
@@ -0,0 +1,60 @@
+/**
+ * Local stub x402 facilitator for testing X402_FACILITATOR_URL delegation.
+ * Accepts every payment and returns a fake settlement transaction hash.
+ *
+ * Usage:
+ *   npm run facilitator:stub
+ *   X402_FACILITATOR_URL=http://localhost:4020 npm run dev
+ *
+ * Env:
+ *   STUB_FACILITATOR_PORT  port to listen on (default 4020)
+ *   STUB_FACILITATOR_FAIL  "verify" or "settle" to simulate a rejection
+ */
+
+import express from "express";
+import { hexlify, randomBytes } from "ethers";
+
+const PORT = Number(process.env.STUB_FACILITATOR_PORT ?? 4020);
+const FAIL = process.env.STUB_FACILITATOR_FAIL;
+
+const app = express();
+app.use(express.json());
+
+function getPayer(body: any): string | undefined {
+  return body?.paymentPayload?.payload?.authorization?.from;
+}
+
+app.post("/verify", (req, res) => {
+  const payer = getPayer(req.body);
+  console.log(`[verify] payer=${payer} amount=${req.body?.paymentRequirements?.maxAmountRequired}`);
+
+  if (FAIL === "verify") {
+    res.json({ isValid: false, invalidReason: "Rejected by stub facilitator", payer });
+    return;
+  }
+  res.json({ isValid: true, payer });
+});
+
+app.post("/settle", (req, res) => {
+  const payer = getPayer(req.body);
+  const network = req.body?.paymentRequirements?.network;
+
+  if (FAIL === "settle") {
+    console.log(`[settle] payer=${payer} -> rejected`);
+    res.json({ success: false, errorReason: "Rejected by stub facilitator", transaction: "", network, payer });
+    return;
+  }
+
+  const transaction = hexlify(randomBytes(32));
+  console.log(`[settle] payer=${payer} -> ${transaction}`);
+  res.json({ success: true, transaction, network, payer });
+});
+
+app.get("/supported", (_req, res) => {
+  res.json({ kinds: [{ x402Version: 1, scheme: "exact", network: "eip155:338" }] });
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Stub x402 facilitator listening on http://localhost:${PORT}`);
+  if (FAIL) console.log(`   Simulating ${FAIL} failures`);
+});
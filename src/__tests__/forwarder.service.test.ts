@@ -1,4 +1,21 @@
 import { describe, it, expect } from "vitest";
+import { AbiCoder, Interface, Wallet, verifyTypedData, TypedDataEncoder, concat } from "ethers";
+import {
+  FORWARD_REQUEST_TYPES,
+  hashForwardRequest,
+  hashForwardRequestBatch,
+  isPaymentBound,
+} from "../utils/payment-binding.js";
+import {
+  FORWARDER_OVERHEAD_GAS,
+  calldataGas,
+  intrinsicGas,
+  outerGasFloor,
+  outerGasLimit,
+  recommendForwardGas,
+  withCallReserve,
+} from "../utils/gas-math.js";
+import { COMMON_ERRORS, ERROR_SELECTOR, PANIC_SELECTOR, decodeRevert } from "../utils/revert.js";
 
 // Test forwarder EIP-712 domain and types
 
@@ -257,4 +274,144 @@ describe("ForwarderService", () => {
       expect(tuple[6]).toBe(request.data);
     });
   });
+
+  describe("Payment binding", () => {
+    const domain = {
+      name: "MinimalForwarder",
+      version: "1",
+      chainId: CHAIN_ID,
+      verifyingContract: FORWARDER_ADDRESS,
+    };
+    const request = {
+      from: "0x1234567890123456789012345678901234567890",
+      to: "0x0987654321098765432109876543210987654321",
+      value: "0",
+      gas: "100000",
+      nonce: "5",
+      deadline: "1735500000",
+      data: "0xa9059cbb",
+    };
+
+    it("should hash to the digest the agent signs", async () => {
+      const agent = Wallet.createRandom();
+      const typed = { ...request, from: agent.address };
+      const signature = await agent.signTypedData(domain, FORWARD_REQUEST_TYPES, {
+        ...typed,
+        value: 0n,
+        gas: 100000n,
+        nonce: 5n,
+        deadline: 1735500000n,
+      });
+
+      const hash = hashForwardRequest(domain, typed);
+      expect(hash).toBe(TypedDataEncoder.hash(domain, FORWARD_REQUEST_TYPES, {
+        ...typed,
+        value: 0n,
+        gas: 100000n,
+        nonce: 5n,
+        deadline: 1735500000n,
+      }));
+      expect(verifyTypedData(domain, FORWARD_REQUEST_TYPES, { ...typed }, signature)).toBe(agent.address);
+    });
+
+    it("should change when any field changes", () => {
+      const hash = hashForwardRequest(domain, request);
+      expect(hashForwardRequest(domain, { ...request, to: request.from })).not.toBe(hash);
+      expect(hashForwardRequest(domain, { ...request, nonce: "6" })).not.toBe(hash);
+      expect(hashForwardRequest(domain, { ...request, data: "0xa9059cbc" })).not.toBe(hash);
+      expect(hashForwardRequest({ ...domain, chainId: 25 }, request)).not.toBe(hash);
+    });
+
+    it("should bind batches to their order", () => {
+      const second = { ...request, nonce: "6" };
+      const batch = hashForwardRequestBatch(domain, [request, second]);
+      expect(batch).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(hashForwardRequestBatch(domain, [second, request])).not.toBe(batch);
+      expect(hashForwardRequestBatch(domain, [request])).not.toBe(hashForwardRequest(domain, request));
+    });
+
+    it("should accept only the matching nonce", () => {
+      const hash = hashForwardRequest(domain, request);
+      expect(isPaymentBound(hash, hash)).toBe(true);
+      expect(isPaymentBound(hash.toUpperCase().replace("0X", "0x"), hash)).toBe(true);
+      expect(isPaymentBound("0x" + "ab".repeat(32), hash)).toBe(false);
+      expect(isPaymentBound(undefined, hash)).toBe(false);
+    });
+  });
+
+  describe("Gas estimation", () => {
+    it("should price calldata per byte", () => {
+      expect(calldataGas("0x")).toBe(0n);
+      expect(calldataGas("0x0001")).toBe(4n + 16n);
+      expect(intrinsicGas("0x00ff")).toBe(21000n + 20n);
+    });
+
+    it("should reserve 1/64 for the forwarding call", () => {
+      expect(withCallReserve(63000n)).toBe(64000n);
+      expect(withCallReserve(100n)).toBe(102n); // 101.59 rounded up
+    });
+
+    it("should drop the intrinsic cost from the inner estimate and add 20%", () => {
+      // 21000 + 4 bytes of calldata (16 each) + 50000 execution
+      expect(recommendForwardGas(71064n, "0xa9059cbb")).toBe(60000n);
+    });
+
+    it("should not go negative on an estimate below intrinsic gas", () => {
+      expect(recommendForwardGas(100n, "0x")).toBe(0n);
+    });
+
+    it("should keep the outer limit above the floor", () => {
+      const floor = outerGasFloor("0x", 63000n);
+      expect(floor).toBe(21000n + FORWARDER_OVERHEAD_GAS + 64000n);
+      expect(outerGasLimit(50000n, "0x", 63000n)).toBe(floor);
+    });
+
+    it("should buffer a node estimate that is above the floor", () => {
+      expect(outerGasLimit(500000n, "0x", 63000n)).toBe(600000n);
+    });
+  });
+
+  describe("Revert decoding", () => {
+    const coder = AbiCoder.defaultAbiCoder();
+    const knownErrors = new Interface(COMMON_ERRORS);
+
+    it("should decode Error(string)", () => {
+      const data = concat([ERROR_SELECTOR, coder.encode(["string"], ["Insufficient output amount"])]);
+      const revert = decodeRevert(data, knownErrors);
+      expect(revert.kind).toBe("error");
+      expect(revert.reason).toBe("Insufficient output amount");
+    });
+
+    it("should name panic codes", () => {
+      const data = concat([PANIC_SELECTOR, coder.encode(["uint256"], [0x11])]);
+      const revert = decodeRevert(data);
+      expect(revert.kind).toBe("panic");
+      expect(revert.panicCode).toBe(0x11);
+      expect(revert.reason).toBe("Panic 0x11: arithmetic overflow or underflow");
+    });
+
+    it("should decode custom errors from known ABIs", () => {
+      const holder = "0x" + "12".repeat(20);
+      const data = knownErrors.encodeErrorResult("ERC20InsufficientBalance", [holder, 5n, 10n]);
+      const revert = decodeRevert(data, knownErrors);
+      expect(revert.kind).toBe("custom");
+      expect(revert.name).toBe("ERC20InsufficientBalance");
+      expect(revert.args).toEqual([holder, "5", "10"]);
+    });
+
+    it("should report unknown selectors without failing", () => {
+      const revert = decodeRevert("0xdeadbeef", knownErrors);
+      expect(revert.kind).toBe("unknown");
+      expect(revert.selector).toBe("0xdeadbeef");
+    });
+
+    it("should treat empty data as a bare revert", () => {
+      expect(decodeRevert("0x").kind).toBe("empty");
+      expect(decodeRevert(null).kind).toBe("empty");
+    });
+
+    it("should not throw on a truncated Error(string)", () => {
+      expect(decodeRevert(ERROR_SELECTOR + "00").kind).toBe("unknown");
+    });
+  });
 });
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { NonceTracker } from "../utils/nonce-tracker.js";
+
+// Test nonce assignment, holes, gap detection and resync
+
+describe("NonceService", () => {
+  function tracker(chainNonce = 10): NonceTracker {
+    const t = new NonceTracker();
+    t.init(chainNonce);
+    return t;
+  }
+
+  it("should refuse to hand out nonces before it knows the chain's", () => {
+    expect(() => new NonceTracker().take()).toThrow("not initialized");
+  });
+
+  it("should hand out consecutive nonces to concurrent senders", () => {
+    const t = tracker();
+    expect([t.take(), t.take(), t.take()]).toEqual([10, 11, 12]);
+    expect(t.getStatus().reserved).toEqual([10, 11, 12]);
+  });
+
+  it("should forget nonces once broadcast", () => {
+    const t = tracker();
+    const nonce = t.take();
+    t.sent(nonce);
+    expect(t.getStatus()).toEqual({ next: 11, reserved: [], holes: [] });
+  });
+
+  describe("failed broadcasts", () => {
+    it("should reuse the last nonce without leaving a hole", () => {
+      const t = tracker();
+      t.sent(t.take());
+      const failed = t.take();
+      t.release(failed);
+      expect(t.holes()).toEqual([]);
+      expect(t.take()).toBe(11);
+    });
+
+    it("should keep a hole below later nonces and hand it out first", () => {
+      const t = tracker();
+      const first = t.take();
+      t.sent(t.take());
+      t.release(first);
+      expect(t.holes()).toEqual([10]);
+      expect(t.take()).toBe(10);
+      expect(t.take()).toBe(12);
+    });
+
+    it("should collapse trailing holes released out of order", () => {
+      const t = tracker();
+      const [a, b, c] = [t.take(), t.take(), t.take()];
+      t.release(b);
+      t.release(c);
+      expect(t.holes()).toEqual([]);
+      expect(t.getStatus().next).toBe(11);
+      t.release(a);
+      expect(t.getStatus().next).toBe(10);
+    });
+  });
+
+  describe("claim", () => {
+    it("should let a filler take a hole exactly once", () => {
+      const t = tracker();
+      const first = t.take();
+      t.sent(t.take());
+      t.release(first);
+      expect(t.claim(10)).toBe(true);
+      expect(t.claim(10)).toBe(false);
+      expect(t.take()).toBe(12);
+    });
+
+    it("should not claim nonces that were never handed out", () => {
+      expect(tracker().claim(10)).toBe(false);
+    });
+  });
+
+  describe("resync", () => {
+    it("should skip nonces used by another sender with the same key", () => {
+      const t = tracker();
+      t.sent(t.take());
+      t.resync(15);
+      expect(t.take()).toBe(15);
+    });
+
+    it("should drop holes the chain has already used", () => {
+      const t = tracker();
+      const first = t.take();
+      t.sent(t.take());
+      t.release(first);
+      t.resync(12);
+      expect(t.holes()).toEqual([]);
+    });
+
+    it("should not move back when the node is missing a transaction", () => {
+      const t = tracker();
+      t.sent(t.take());
+      t.sent(t.take());
+      t.resync(10);
+      expect(t.getStatus().next).toBe(12);
+    });
+
+    it("should initialize on first resync", () => {
+      const t = new NonceTracker();
+      t.resync(4);
+      expect(t.take()).toBe(4);
+    });
+  });
+
+  describe("gap", () => {
+    it("should report the nonce the chain is missing", () => {
+      const t = tracker();
+      t.sent(t.take());
+      t.sent(t.take());
+      expect(t.gap(10)).toBe(10);
+      expect(t.gap(12)).toBeNull();
+    });
+
+    it("should not report a nonce that is about to be sent", () => {
+      const t = tracker();
+      t.take();
+      t.sent(t.take());
+      expect(t.gap(10)).toBeNull();
+    });
+  });
+});
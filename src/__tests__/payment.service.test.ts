@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Signature, Wallet } from "ethers";
+import { recoverAuthorizationSigner, splitSignature } from "../utils/eip3009.js";
 
 // Test payment parsing and validation logic
 
@@ -261,6 +263,120 @@ describe("PaymentService", () => {
     });
   });
 
+  describe("EIP-3009 signature verification", () => {
+    const domain = {
+      name: "Test USDC",
+      version: "1",
+      chainId: 338,
+      verifyingContract: "0x38Bf87D7281A2F84c8ed5aF1410295f7BD4E20a1",
+    };
+    const payer = Wallet.createRandom();
+
+    const authorization = {
+      from: payer.address,
+      to: RECEIVING_WALLET,
+      value: "10000",
+      validAfter: "0",
+      validBefore: "9999999999",
+      nonce: "0x" + "b".repeat(64),
+    };
+
+    async function signAuthorization(wallet: { signTypedData: Wallet["signTypedData"] }) {
+      return wallet.signTypedData(
+        domain,
+        {
+          TransferWithAuthorization: [
+            { name: "from", type: "address" },
+            { name: "to", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "validAfter", type: "uint256" },
+            { name: "validBefore", type: "uint256" },
+            { name: "nonce", type: "bytes32" },
+          ],
+        },
+        {
+          ...authorization,
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+        }
+      );
+    }
+
+    it("should recover the payer from a 65-byte signature", async () => {
+      const signature = await signAuthorization(payer);
+      expect(recoverAuthorizationSigner(domain, authorization, signature)).toBe(payer.address);
+    });
+
+    it("should recover the payer from an EIP-2098 compact signature", async () => {
+      const signature = await signAuthorization(payer);
+      const compact = Signature.from(signature).compactSerialized;
+
+      expect(compact.length).toBe(2 + 128);
+      expect(recoverAuthorizationSigner(domain, authorization, compact)).toBe(payer.address);
+    });
+
+    it("should not recover the payer when the authorization is tampered with", async () => {
+      const signature = await signAuthorization(payer);
+      const tampered = { ...authorization, value: "1" };
+
+      expect(recoverAuthorizationSigner(domain, tampered, signature)).not.toBe(payer.address);
+    });
+
+    it("should not recover the payer when signed by someone else", async () => {
+      const signature = await signAuthorization(Wallet.createRandom());
+      expect(recoverAuthorizationSigner(domain, authorization, signature)).not.toBe(payer.address);
+    });
+
+    it("should bind ReceiveWithAuthorization signatures to that message type", async () => {
+      const signature = await payer.signTypedData(
+        domain,
+        {
+          ReceiveWithAuthorization: [
+            { name: "from", type: "address" },
+            { name: "to", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "validAfter", type: "uint256" },
+            { name: "validBefore", type: "uint256" },
+            { name: "nonce", type: "bytes32" },
+          ],
+        },
+        {
+          ...authorization,
+          value: BigInt(authorization.value),
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+        }
+      );
+
+      expect(
+        recoverAuthorizationSigner(domain, authorization, signature, "ReceiveWithAuthorization")
+      ).toBe(payer.address);
+      expect(
+        recoverAuthorizationSigner(domain, authorization, signature, "TransferWithAuthorization")
+      ).not.toBe(payer.address);
+    });
+
+    it("should normalise v = 0/1 to 27/28", async () => {
+      const signature = await signAuthorization(payer);
+      const { v, r, s } = splitSignature(signature);
+      const lowV = r + s.slice(2) + (v - 27).toString(16).padStart(2, "0");
+
+      expect(splitSignature(lowV)).toEqual({ v, r, s });
+    });
+
+    it("should split compact signatures into the same v/r/s", async () => {
+      const signature = await signAuthorization(payer);
+      const compact = Signature.from(signature).compactSerialized;
+
+      expect(splitSignature(compact)).toEqual(splitSignature(signature));
+    });
+
+    it("should reject malformed signatures", () => {
+      expect(() => splitSignature("0x1234")).toThrow();
+    });
+  });
+
   describe("x402 response format", () => {
     it("should create valid 402 response structure", () => {
       const response = {
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { AbiCoder, concat, toBeHex, zeroPadValue } from "ethers";
+import {
+  APPROVAL_FOR_ALL_TOPIC,
+  APPROVAL_TOPIC,
+  NATIVE_TRANSFER_ADDRESS,
+  TRANSFER_TOPIC,
+  TraceFrame,
+  TraceLog,
+  balanceDeltas,
+  collectLogs,
+  collectValueTransfers,
+  decodeTokenEvents,
+  nativeTransfersFromLogs,
+  toCallTree,
+} from "../utils/preview.js";
+
+// Test trace decoding for transaction previews
+
+describe("PreviewService", () => {
+  const RELAYER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+  const FORWARDER = "0x523D5F604788a9cFC74CcF81F0DE5B3b5623635F";
+  const AGENT = "0x1111111111111111111111111111111111111111";
+  const TOKEN = "0x2222222222222222222222222222222222222222";
+  const NFT = "0x3333333333333333333333333333333333333333";
+  const DEX = "0x4444444444444444444444444444444444444444";
+
+  const topic = (address: string) => zeroPadValue(address, 32);
+  const word = (value: bigint) => toBeHex(value, 32);
+
+  function erc20Log(event: string, from: string, to: string, amount: bigint, position?: number): TraceLog {
+    return {
+      address: TOKEN,
+      topics: [event, topic(from), topic(to)],
+      data: word(amount),
+      position: position === undefined ? undefined : toBeHex(position),
+    };
+  }
+
+  describe("decodeTokenEvents", () => {
+    it("should decode ERC-20 transfers and approvals", () => {
+      const { transfers, approvals } = decodeTokenEvents([
+        erc20Log(APPROVAL_TOPIC, AGENT, DEX, 500n),
+        erc20Log(TRANSFER_TOPIC, AGENT, DEX, 100n),
+      ]);
+      expect(transfers).toEqual([
+        { event: "Transfer", standard: "erc20", token: TOKEN, from: AGENT, to: DEX, amount: "100" },
+      ]);
+      expect(approvals[0]).toMatchObject({ event: "Approval", standard: "erc20", amount: "500" });
+    });
+
+    it("should decode ERC-721 events by their indexed token id", () => {
+      const { transfers, approvals } = decodeTokenEvents([
+        { address: NFT, topics: [TRANSFER_TOPIC, topic(AGENT), topic(DEX), word(7n)], data: "0x" },
+        { address: NFT, topics: [APPROVAL_FOR_ALL_TOPIC, topic(AGENT), topic(DEX)], data: word(1n) },
+      ]);
+      expect(transfers[0]).toMatchObject({ standard: "erc721", tokenId: "7", from: AGENT, to: DEX });
+      expect(approvals[0]).toMatchObject({ event: "ApprovalForAll", approved: true });
+    });
+
+    it("should skip other events and malformed token events", () => {
+      const { transfers, approvals } = decodeTokenEvents([
+        { address: TOKEN, topics: [word(1n)], data: "0x" },
+        { address: TOKEN, topics: [TRANSFER_TOPIC, topic(AGENT), topic(DEX)], data: "0x" },
+      ]);
+      expect(transfers).toHaveLength(0);
+      expect(approvals).toHaveLength(0);
+    });
+  });
+
+  describe("trace frames", () => {
+    const frame: TraceFrame = {
+      type: "CALL",
+      from: RELAYER,
+      to: FORWARDER,
+      value: "0x64",
+      gasUsed: "0x5208",
+      input: "0x47153f82",
+      calls: [
+        {
+          type: "CALL",
+          from: FORWARDER,
+          to: DEX,
+          value: "0x64",
+          input: "0x38ed1739",
+          calls: [
+            {
+              type: "CALL",
+              from: DEX,
+              to: TOKEN,
+              input: "0x23b872dd",
+              logs: [erc20Log(TRANSFER_TOPIC, AGENT, DEX, 100n)],
+            },
+            {
+              type: "CALL",
+              from: DEX,
+              to: AGENT,
+              value: "0x0a",
+              error: "execution reverted",
+              output: "0x",
+              logs: [erc20Log(TRANSFER_TOPIC, DEX, AGENT, 1n)],
+            },
+          ],
+          logs: [erc20Log(APPROVAL_TOPIC, AGENT, DEX, 0n, 1)],
+        },
+      ],
+      logs: [erc20Log(APPROVAL_TOPIC, AGENT, FORWARDER, 9n, 1)],
+    };
+
+    it("should collect surviving logs in execution order", () => {
+      const logs = collectLogs(frame);
+      expect(logs.map((log) => BigInt(log.data))).toEqual([100n, 0n, 9n]);
+    });
+
+    it("should count CRO moved by successful calls only", () => {
+      const transfers = collectValueTransfers(frame);
+      expect(transfers).toHaveLength(2);
+      expect(balanceDeltas(transfers)).toEqual([
+        { account: RELAYER, delta: "-100" },
+        { account: DEX, delta: "100" },
+      ]);
+    });
+
+    it("should not count a DELEGATECALL's value twice", () => {
+      const delegate: TraceFrame = { type: "DELEGATECALL", from: FORWARDER, to: DEX, value: "0x64" };
+      expect(collectValueTransfers(delegate)).toHaveLength(0);
+    });
+
+    it("should build the call tree with decoded reverts", () => {
+      const errorData = concat(["0x08c379a0", AbiCoder.defaultAbiCoder().encode(["string"], ["no"])]);
+      const tree = toCallTree({ ...frame, error: "execution reverted", output: errorData });
+      expect(tree.selector).toBe("0x47153f82");
+      expect(tree.value).toBe("100");
+      expect(tree.gasUsed).toBe("21000");
+      expect(tree.revert?.reason).toBe("no");
+      expect(tree.calls[0].calls[1].revert?.kind).toBe("empty");
+    });
+  });
+
+  describe("eth_simulateV1 transfers", () => {
+    it("should read CRO transfers from ERC-7528 logs", () => {
+      const logs: TraceLog[] = [
+        { address: NATIVE_TRANSFER_ADDRESS, topics: [TRANSFER_TOPIC, topic(RELAYER), topic(DEX)], data: word(5n) },
+        erc20Log(TRANSFER_TOPIC, AGENT, DEX, 100n),
+      ];
+      expect(nativeTransfersFromLogs(logs)).toEqual([{ from: RELAYER, to: DEX, value: 5n }]);
+      expect(decodeTokenEvents(logs).transfers).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  PriceSample,
+  aggregatePrices,
+  applyManualPrice,
+  maxDeviationPercent,
+  median,
+} from "../utils/price-aggregation.js";
+
+// Test oracle aggregation: median, staleness, the deviation breaker and the manual override
+
+describe("PriceOracleService", () => {
+  const now = 1_700_000_000_000;
+  const options = {
+    now,
+    maxAgeMs: 300_000,
+    maxDeviationPercent: 5,
+    minSources: 1,
+  };
+
+  const sample = (source: string, price: number, ageMs: number = 0): PriceSample => ({
+    source,
+    price,
+    timestamp: now - ageMs,
+  });
+
+  describe("median", () => {
+    it("should take the middle value of an odd list", () => {
+      expect(median([0.1, 0.3, 0.2])).toBe(0.2);
+    });
+
+    it("should average the middle values of an even list", () => {
+      expect(median([0.1, 0.2, 0.3, 0.4])).toBeCloseTo(0.25);
+    });
+
+    it("should reject an empty list", () => {
+      expect(() => median([])).toThrow();
+    });
+  });
+
+  describe("maxDeviationPercent", () => {
+    it("should measure the furthest value from the reference", () => {
+      expect(maxDeviationPercent([0.1, 0.095, 0.11], 0.1)).toBeCloseTo(10);
+    });
+  });
+
+  describe("aggregatePrices", () => {
+    it("should return the median of fresh samples", () => {
+      const result = aggregatePrices(
+        [sample("cryptocom", 0.1), sample("vvs", 0.102), sample("coingecko", 0.101)],
+        options
+      );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.price).toBe(0.101);
+        expect(result.sources).toEqual(["cryptocom", "vvs", "coingecko"]);
+      }
+    });
+
+    it("should ignore stale samples", () => {
+      const result = aggregatePrices(
+        [sample("cryptocom", 0.1), sample("vvs", 0.5, 600_000)],
+        options
+      );
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.price).toBe(0.1);
+        expect(result.sources).toEqual(["cryptocom"]);
+      }
+    });
+
+    it("should refuse when every sample is stale", () => {
+      const result = aggregatePrices([sample("cryptocom", 0.1, 301_000)], options);
+      expect(result.ok).toBe(false);
+    });
+
+    it("should refuse with fewer fresh sources than required", () => {
+      const result = aggregatePrices(
+        [sample("cryptocom", 0.1), sample("vvs", 0.1, 600_000)],
+        { ...options, minSources: 2 }
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.reason).toContain("2 required");
+      }
+    });
+
+    it("should trip the breaker when sources disagree", () => {
+      const result = aggregatePrices(
+        [sample("cryptocom", 0.1), sample("vvs", 0.13), sample("coingecko", 0.1)],
+        options
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.deviationPercent).toBeCloseTo(30);
+      }
+    });
+
+    it("should ignore non-positive prices", () => {
+      const result = aggregatePrices([sample("vvs", 0), sample("coingecko", 0.1)], options);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.sources).toEqual(["coingecko"]);
+      }
+    });
+  });
+
+  describe("applyManualPrice", () => {
+    it("should leave the aggregate alone without a manual price", () => {
+      const aggregate = aggregatePrices([sample("vvs", 0.1)], options);
+      expect(applyManualPrice(aggregate, null)).toBe(aggregate);
+    });
+
+    it("should override a healthy median", () => {
+      const aggregate = aggregatePrices([sample("vvs", 0.1), sample("coingecko", 0.1)], options);
+      expect(applyManualPrice(aggregate, 0.08)).toMatchObject({ ok: true, price: 0.08, sources: ["manual"] });
+    });
+
+    it("should override stale or disputed sources", () => {
+      const stale = aggregatePrices([sample("vvs", 0.1, 600_000)], options);
+      const disputed = aggregatePrices([sample("vvs", 0.1), sample("coingecko", 0.2)], options);
+      expect(applyManualPrice(stale, 0.08)).toMatchObject({ ok: true, price: 0.08 });
+      expect(applyManualPrice(disputed, 0.08)).toMatchObject({ ok: true, price: 0.08 });
+    });
+  });
+});
@@ -1,5 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { parseUnits, formatUnits } from "ethers";
+import {
+  bumpFees,
+  describeFeePlan,
+  planFees,
+  planFeesFromTip,
+  scaleFee,
+  tipsFromFeeHistory,
+} from "../utils/fees.js";
+import {
+  BPS,
+  applyDiscount,
+  computePrice,
+  divCeil,
+  formatUsdc,
+  toBps,
+  toCroPrice,
+  toUsdcRaw,
+  valueToUsdcRaw,
+} from "../utils/price-math.js";
+import { checkValue } from "../utils/value-policy.js";
 
 // Test pricing calculation logic without blockchain dependencies
 
@@ -150,4 +170,288 @@ describe("PricingService", () => {
       expect(bufferedEstimate).toBe(6000000n);
     });
   });
+
+  describe("calculateActualCost (upto scheme)", () => {
+    const MARKUP_PERCENTAGE = 20;
+    const MIN_PRICE_USDC = 0.01;
+
+    // Mirrors the service for the "normal" tier: price gas used at the
+    // effective gas price, then cap at what the agent authorised
+    function calculateActualCost(gasUsed: bigint, effectiveGasPrice: bigint, croUsdPrice: number, maxAmountRaw: bigint) {
+      const gasCostCro = Number(formatUnits(gasUsed * effectiveGasPrice, 18));
+      const priceUSD = Math.max(gasCostCro * croUsdPrice * (1 + MARKUP_PERCENTAGE / 100), MIN_PRICE_USDC);
+      const costRaw = parseUnits(priceUSD.toFixed(6), 6);
+      return costRaw > maxAmountRaw ? maxAmountRaw : costRaw;
+    }
+
+    it("should charge less than the maximum when less gas is used", () => {
+      // Quote for 100000 gas at 5000 gwei = 0.09 USDC max
+      const max = 90000n;
+      const charged = calculateActualCost(60000n, parseUnits("5000", "gwei"), 0.15, max);
+
+      // 60000 * 5000 gwei = 0.3 CRO * 0.15 = 0.045 USD, +20% = 0.054
+      expect(charged).toBe(54000n);
+      expect(max - charged).toBe(36000n); // refunded
+    });
+
+    it("should never charge more than the authorised maximum", () => {
+      const max = 90000n;
+      const charged = calculateActualCost(150000n, parseUnits("5000", "gwei"), 0.15, max);
+      expect(charged).toBe(max);
+    });
+
+    it("should still apply the minimum price", () => {
+      const charged = calculateActualCost(21000n, parseUnits("100", "gwei"), 0.15, 90000n);
+      expect(charged).toBe(10000n);
+    });
+  });
+
+  describe("EIP-1559 fees", () => {
+    const gwei = (n: string) => parseUnits(n, "gwei");
+    const network = { baseFee: gwei("375"), priorityFee: gwei("2"), gasPrice: gwei("377") };
+
+    it("should charge base fee plus the priority-scaled tip", () => {
+      const fast = planFees(network, 2, 1.5);
+      expect(fast.priorityFee).toBe(gwei("4"));
+      expect(fast.expectedGasPrice).toBe(gwei("379"));
+    });
+
+    it("should send type-2 with maxFee at twice the base fee plus tip", () => {
+      const normal = planFees(network, 1, 1);
+      expect(normal.overrides).toEqual({
+        type: 2,
+        maxFeePerGas: gwei("752"),
+        maxPriorityFeePerGas: gwei("2"),
+      });
+      expect(normal.maxFee).toBeGreaterThan(normal.expectedGasPrice);
+    });
+
+    it("should give slow a smaller tip than fast", () => {
+      expect(planFees(network, 0.5, 0.8).expectedGasPrice)
+        .toBeLessThan(planFees(network, 2, 1.5).expectedGasPrice);
+    });
+
+    it("should fall back to a scaled legacy gas price without a base fee", () => {
+      const slow = planFees({ ...network, baseFee: null }, 0.5, 0.8);
+      expect(slow.overrides).toEqual({ type: 0, gasPrice: scaleFee(gwei("377"), 0.8) });
+      expect(slow.expectedGasPrice).toBe(gwei("301.6"));
+    });
+
+    it("should bump both type-2 fees by at least 10%", () => {
+      const { overrides } = planFees(network, 1, 1);
+      const bumped = bumpFees(overrides, 5);
+      expect(bumped.type).toBe(2);
+      if (bumped.type === 2 && overrides.type === 2) {
+        expect(bumped.maxPriorityFeePerGas * 100n).toBeGreaterThanOrEqual(overrides.maxPriorityFeePerGas * 110n);
+        expect(bumped.maxFeePerGas * 100n).toBeGreaterThanOrEqual(overrides.maxFeePerGas * 110n);
+      }
+    });
+
+    it("should bump a legacy gas price by the policy percent", () => {
+      expect(bumpFees({ type: 0, gasPrice: gwei("100") }, 25)).toEqual({ type: 0, gasPrice: gwei("125") + 1n });
+    });
+
+    it("should describe the breakdown in gwei", () => {
+      expect(describeFeePlan(planFees(network, 1, 1))).toEqual({
+        type: 2,
+        source: "multiplier",
+        baseFeeGwei: "375.0",
+        priorityFeeGwei: "2.0",
+        maxFeeGwei: "752.0",
+        chargedGasPriceGwei: "377.0",
+      });
+    });
+  });
+
+  describe("fee history tiers", () => {
+    const gwei = (n: string) => parseUnits(n, "gwei");
+
+    it("should take the median of each percentile across blocks", () => {
+      const rewards = [
+        [gwei("1"), gwei("2"), gwei("5")],
+        [gwei("1"), gwei("3"), gwei("9")],
+        [gwei("2"), gwei("4"), gwei("6")],
+      ];
+      expect(tipsFromFeeHistory(rewards, 3)).toEqual([gwei("1"), gwei("3"), gwei("6")]);
+    });
+
+    it("should never let a higher tier tip less", () => {
+      const rewards = [
+        [gwei("3"), gwei("1"), gwei("2")],
+        [gwei("3"), gwei("1"), gwei("2")],
+      ];
+      expect(tipsFromFeeHistory(rewards, 3)).toEqual([gwei("3"), gwei("3"), gwei("3")]);
+    });
+
+    it("should skip blocks without rewards", () => {
+      const rewards = [[], [gwei("1"), gwei("2"), gwei("4")]];
+      expect(tipsFromFeeHistory(rewards, 3)).toEqual([gwei("1"), gwei("2"), gwei("4")]);
+      expect(tipsFromFeeHistory([[], []], 3)).toBeNull();
+    });
+
+    it("should plan type-2 fees around the historical tip", () => {
+      const plan = planFeesFromTip(gwei("375"), gwei("3"));
+      expect(plan.source).toBe("fee_history");
+      expect(plan.expectedGasPrice).toBe(gwei("378"));
+      expect(plan.overrides).toEqual({
+        type: 2,
+        maxFeePerGas: gwei("753"),
+        maxPriorityFeePerGas: gwei("3"),
+      });
+    });
+  });
+
+  describe("fixed-point engine", () => {
+    const gwei = (n: string) => parseUnits(n, "gwei");
+
+    // Defaults mirror the "normal" tier of the float model above
+    function price(gasUnits: bigint, gasPrice: bigint, cro: number, overrides: Record<string, bigint> = {}) {
+      return computePrice({
+        gasUnits,
+        gasPrice,
+        croUsdPrice: toCroPrice(cro),
+        markupBps: 2000n,
+        priorityBps: BPS,
+        surgeBps: BPS,
+        minPriceRaw: toUsdcRaw(0.01),
+        maxPriceRaw: toUsdcRaw(10),
+        ...overrides,
+      });
+    }
+
+    // Small seeded PRNG (mulberry32) so failures are reproducible
+    function prng(seed: number) {
+      return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+    }
+
+    it("should match the float model on the standard cases", () => {
+      expect(price(100000n, gwei("5000"), 0.15).priceRaw).toBe(90000n);
+      expect(price(500000n, gwei("50000"), 0.2).priceRaw).toBe(6000000n);
+      expect(price(21000n, gwei("100"), 0.1)).toMatchObject({ priceRaw: 10000n, bound: "min" });
+      expect(price(10000000n, gwei("100000"), 1)).toMatchObject({ priceRaw: 10000000n, bound: "max" });
+      expect(price(1000000n, gwei("10000"), 0.5).markupFactor).toBe(1.2);
+    });
+
+    it("should keep sub-micro precision until the final rounding", () => {
+      // 0.0900000000001 USD rounds up to 0.090001, never down
+      const result = price(100000n, gwei("5000") + 1n, 0.15, { minPriceRaw: 0n });
+      expect(result.priceRaw).toBe(90001n);
+    });
+
+    it("should apply priority and surge to the markup", () => {
+      // fast: 2x the 20% markup, 1.5x surge → 1.4 × 1.5 = 2.1
+      const result = price(100000n, gwei("5000"), 0.15, { priorityBps: 20000n, surgeBps: 15000n });
+      expect(result.markupFactor).toBeCloseTo(2.1);
+      expect(result.priceRaw).toBe(157500n);
+    });
+
+    it("should never undercharge and round up by less than one micro-USDC", () => {
+      const random = prng(0x5eed);
+      for (let i = 0; i < 500; i++) {
+        const gasUnits = BigInt(21000 + Math.floor(random() * 10_000_000));
+        const gasPrice = BigInt(Math.floor(random() * 1e6)) * 10n ** 9n + BigInt(Math.floor(random() * 1e9));
+        const cro = Number((0.01 + random() * 2).toFixed(12));
+        const markupBps = BigInt(Math.floor(random() * 10000));
+        const surgeBps = BPS + BigInt(Math.floor(random() * 20000));
+
+        const { priceRaw } = price(gasUnits, gasPrice, cro, {
+          markupBps,
+          surgeBps,
+          minPriceRaw: 0n,
+          maxPriceRaw: 10n ** 30n,
+        });
+
+        // Exact rational: gas × price × cro × (1 + markup) × surge, in micro-USDC
+        const numerator = gasUnits * gasPrice * toCroPrice(cro) * (BPS * BPS + markupBps * BPS) * surgeBps;
+        const denominator = 10n ** 24n * BPS * BPS * BPS;
+        expect(priceRaw * denominator).toBeGreaterThanOrEqual(numerator);
+        expect((priceRaw - 1n) * denominator).toBeLessThan(numerator);
+      }
+    });
+
+    it("should agree with the float model where floats are exact enough", () => {
+      const random = prng(42);
+      for (let i = 0; i < 500; i++) {
+        const gasUnits = BigInt(21000 + Math.floor(random() * 1_000_000));
+        const gasPrice = gwei(String(100 + Math.floor(random() * 10000)));
+        const cro = Number((0.05 + random()).toFixed(4));
+
+        const exact = price(gasUnits, gasPrice, cro).priceRaw;
+        const float = Math.min(
+          Math.max(Number(formatUnits(gasUnits * gasPrice, 18)) * cro * 1.2, 0.01),
+          10
+        );
+        // Float rounds to nearest, the engine always up: at most 1 micro apart
+        const diff = exact - parseUnits(float.toFixed(6), 6);
+        expect(diff >= -1n && diff <= 1n).toBe(true);
+      }
+    });
+
+    it("should be monotonic in gas used", () => {
+      const random = prng(7);
+      let previous = 0n;
+      for (let gas = 21000n; gas < 2_000_000n; gas += BigInt(1 + Math.floor(random() * 50000))) {
+        const { priceRaw } = price(gas, gwei("5000"), 0.1);
+        expect(priceRaw).toBeGreaterThanOrEqual(previous);
+        previous = priceRaw;
+      }
+    });
+
+    it("should round batch discounts up", () => {
+      expect(applyDiscount(90000n, 1000n)).toBe(81000n);
+      expect(applyDiscount(11n, 1000n)).toBe(10n); // 9.9 → 10
+      const random = prng(99);
+      for (let i = 0; i < 200; i++) {
+        const raw = BigInt(Math.floor(random() * 1e10));
+        const discounted = applyDiscount(raw, 1000n);
+        expect(discounted * 10n).toBeGreaterThanOrEqual(raw * 9n);
+        expect((discounted - 1n) * 10n).toBeLessThan(raw * 9n);
+      }
+    });
+
+    it("should convert and format without float drift", () => {
+      expect(toBps(0.1 * 3)).toBe(3000n);
+      expect(toBps(1.2)).toBe(12000n);
+      expect(divCeil(7n, 2n)).toBe(4n);
+      expect(formatUsdc(90000n)).toBe("0.090000");
+      expect(formatUsdc(12_345_678n)).toBe("12.345678");
+    });
+  });
+
+  describe("CRO value", () => {
+    const cro = (n: string) => parseUnits(n, 18);
+    const max = cro("10");
+
+    it("should convert value at the oracle rate, rounding up", () => {
+      expect(valueToUsdcRaw(cro("2"), toCroPrice(0.15))).toBe(300000n);
+      expect(valueToUsdcRaw(1n, toCroPrice(0.15))).toBe(1n); // dust still costs 1 micro
+      expect(valueToUsdcRaw(0n, toCroPrice(0.15))).toBe(0n);
+    });
+
+    it("should charge value under the charge policy", () => {
+      expect(checkValue(cro("1"), "charge", max)).toEqual({ allowed: true, charged: true });
+    });
+
+    it("should relay value for free under the cap policy", () => {
+      expect(checkValue(cro("1"), "cap", max)).toEqual({ allowed: true, charged: false });
+    });
+
+    it("should refuse value above the limit", () => {
+      const result = checkValue(cro("10") + 1n, "charge", max);
+      expect(result.allowed).toBe(false);
+      if (!result.allowed) {
+        expect(result.reason).toContain("10.0 CRO limit");
+      }
+    });
+
+    it("should refuse any value under the reject policy", () => {
+      expect(checkValue(1n, "reject", max).allowed).toBe(false);
+      expect(checkValue(0n, "reject", max)).toEqual({ allowed: true, charged: false });
+    });
+  });
 });
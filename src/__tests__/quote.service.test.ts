@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { Wallet, hexlify, randomBytes } from "ethers";
+import {
+  QUOTE_TYPES,
+  QuoteFields,
+  getQuoteDomain,
+  hashQuote,
+  isQuoteExpired,
+  recoverQuoteSigner,
+} from "../utils/quote.js";
+
+// Test signed quotes the way an agent would check them offline
+
+describe("QuoteService", () => {
+  const signer = Wallet.createRandom();
+  const domain = getQuoteDomain(338);
+
+  const quote: QuoteFields = {
+    quoteId: hexlify(randomBytes(32)),
+    requestHash: hexlify(randomBytes(32)),
+    price: "12000",
+    gas: "100000",
+    gasPrice: "5000000000000",
+    priority: "normal",
+    validUntil: 1700000060,
+  };
+
+  const sign = (fields: QuoteFields) => signer.signingKey.sign(hashQuote(domain, fields)).serialized;
+
+  describe("signature", () => {
+    it("should recover the signer", () => {
+      expect(recoverQuoteSigner(domain, quote, sign(quote))).toBe(signer.address);
+    });
+
+    it("should match signTypedData", async () => {
+      const signature = await signer.signTypedData(domain, QUOTE_TYPES, {
+        ...quote,
+        price: BigInt(quote.price),
+        gas: BigInt(quote.gas),
+        gasPrice: BigInt(quote.gasPrice),
+        validUntil: BigInt(quote.validUntil),
+      });
+      expect(signature).toBe(sign(quote));
+    });
+
+    it("should not recover the signer when the price is altered", () => {
+      const signature = sign(quote);
+      const tampered = { ...quote, price: "1" };
+      expect(recoverQuoteSigner(domain, tampered, signature)).not.toBe(signer.address);
+    });
+
+    it("should not verify on another chain", () => {
+      const signature = sign(quote);
+      expect(recoverQuoteSigner(getQuoteDomain(25), quote, signature)).not.toBe(signer.address);
+    });
+  });
+
+  describe("expiry", () => {
+    it("should be valid up to and including validUntil", () => {
+      expect(isQuoteExpired(quote, 1700000000)).toBe(false);
+      expect(isQuoteExpired(quote, 1700000060)).toBe(false);
+    });
+
+    it("should expire after validUntil", () => {
+      expect(isQuoteExpired(quote, 1700000061)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  REFUND_RULE_PATTERN,
+  computeRefundAmount,
+  formatRefundRule,
+  isRefundOwed,
+  parseRefundRule,
+  splitBatchCharge,
+  splitBatchPayment,
+} from "../utils/refund-policy.js";
+
+// Test refund rule parsing and amount calculation
+
+describe("RefundService", () => {
+  describe("parseRefundRule", () => {
+    it("should parse full and keep_fee", () => {
+      expect(parseRefundRule("full")).toEqual({ type: "full" });
+      expect(parseRefundRule("keep_fee")).toEqual({ type: "keep_fee" });
+    });
+
+    it("should parse partial percentages", () => {
+      expect(parseRefundRule("partial:50")).toEqual({ type: "partial", percent: 50 });
+      expect(parseRefundRule("partial:0")).toEqual({ type: "partial", percent: 0 });
+      expect(parseRefundRule("partial:100")).toEqual({ type: "partial", percent: 100 });
+    });
+
+    it("should reject percentages above 100", () => {
+      expect(() => parseRefundRule("partial:150")).toThrow();
+    });
+
+    it("should reject unknown rules", () => {
+      expect(() => parseRefundRule("half")).toThrow();
+      expect(() => parseRefundRule("partial:")).toThrow();
+      expect(REFUND_RULE_PATTERN.test("partial:-5")).toBe(false);
+    });
+
+    it("should round-trip through formatRefundRule", () => {
+      for (const value of ["full", "keep_fee", "partial:25"]) {
+        expect(formatRefundRule(parseRefundRule(value))).toBe(value);
+      }
+    });
+  });
+
+  describe("computeRefundAmount", () => {
+    const paid = 10000n; // 0.01 USDC
+
+    it("should refund everything for full", () => {
+      expect(computeRefundAmount({ type: "full" }, paid)).toBe(10000n);
+    });
+
+    it("should refund nothing for keep_fee", () => {
+      expect(computeRefundAmount({ type: "keep_fee" }, paid)).toBe(0n);
+    });
+
+    it("should refund a percentage for partial, rounding down", () => {
+      expect(computeRefundAmount({ type: "partial", percent: 50 }, paid)).toBe(5000n);
+      expect(computeRefundAmount({ type: "partial", percent: 33 }, 10001n)).toBe(3300n);
+    });
+  });
+
+  describe("splitBatchPayment", () => {
+    it("should split in proportion to gas limits", () => {
+      expect(splitBatchPayment(9000n, [100000n, 200000n])).toEqual([3000n, 6000n]);
+    });
+
+    it("should never allocate more than was paid", () => {
+      const shares = splitBatchPayment(10000n, [100000n, 100000n, 100000n]);
+      const total = shares.reduce((sum, s) => sum + s, 0n);
+      expect(total).toBeLessThanOrEqual(10000n);
+      expect(shares).toEqual([3333n, 3333n, 3333n]);
+    });
+
+    it("should split evenly when no gas is given", () => {
+      expect(splitBatchPayment(100n, [0n, 0n])).toEqual([50n, 50n]);
+    });
+  });
+
+  describe("splitBatchCharge", () => {
+    it("should split only the gas part by gas limit", () => {
+      // 3000 of the 12000 paid covers the second item's CRO value
+      expect(splitBatchCharge(12000n, 3000n, [
+        { gas: 100000n, value: 0n },
+        { gas: 200000n, value: 10n ** 18n },
+      ])).toEqual([{ gas: 3000n, value: 0n }, { gas: 6000n, value: 3000n }]);
+    });
+
+    it("should give each item its own value cost", () => {
+      const shares = splitBatchCharge(4000n, 3000n, [
+        { gas: 100000n, value: 2n },
+        { gas: 100000n, value: 1n },
+      ]);
+      expect(shares.map((s) => s.value)).toEqual([2000n, 1000n]);
+      expect(shares.map((s) => s.gas)).toEqual([500n, 500n]);
+    });
+
+    it("should treat the whole payment as gas when nothing sends value", () => {
+      expect(splitBatchCharge(9000n, 0n, [
+        { gas: 100000n, value: 0n },
+        { gas: 200000n, value: 0n },
+      ])).toEqual([{ gas: 3000n, value: 0n }, { gas: 6000n, value: 0n }]);
+    });
+  });
+
+  describe("isRefundOwed", () => {
+    it("should count refunds not yet confirmed", () => {
+      expect(isRefundOwed({ status: "pending", refundAmount: "100" })).toBe(true);
+      expect(isRefundOwed({ status: "sent", refundAmount: "100" })).toBe(true);
+      expect(isRefundOwed({ status: "failed", refundAmount: "100" })).toBe(true);
+      expect(isRefundOwed({ status: "skipped", refundAmount: "100" })).toBe(true); // No refund wallet
+    });
+
+    it("should not count confirmed refunds or ones with nothing to send", () => {
+      expect(isRefundOwed({ status: "confirmed", refundAmount: "100" })).toBe(false);
+      expect(isRefundOwed({ status: "abandoned", refundAmount: "100" })).toBe(false);
+      expect(isRefundOwed({ status: "skipped", refundAmount: "0" })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,341 @@
+import { describe, it, expect } from "vitest";
+import { PriorityQueue } from "../utils/priority-queue.js";
+import { InclusionTracker, estimateEta, formatEta, percentile } from "../utils/inclusion-tracker.js";
+import { RelayerHealth, RelayerHealthPolicy, topUpAmount } from "../utils/relayer-health.js";
+import {
+  LeastBusyStrategy,
+  RelayerCandidate,
+  RoundRobinStrategy,
+  StickyAgentStrategy,
+  WeightedBalanceStrategy,
+  createRelayerStrategy,
+} from "../utils/relayer-strategies.js";
+
+// Test relayer queue ordering, selection strategies, inclusion-time tracking and relayer health
+
+describe("RelayerPoolService", () => {
+  describe("priority queue", () => {
+    const FAST = 0;
+    const NORMAL = 1;
+    const SLOW = 2;
+
+    it("should serve lower ranks first", () => {
+      const queue = new PriorityQueue<string>();
+      queue.push("slow", SLOW);
+      queue.push("normal", NORMAL);
+      queue.push("fast", FAST);
+
+      expect([queue.shift(), queue.shift(), queue.shift()]).toEqual(["fast", "normal", "slow"]);
+      expect(queue.shift()).toBeUndefined();
+    });
+
+    it("should keep arrival order within a rank", () => {
+      const queue = new PriorityQueue<string>();
+      queue.push("normal-1", NORMAL);
+      queue.push("fast-1", FAST);
+      queue.push("normal-2", NORMAL);
+      queue.push("fast-2", FAST);
+
+      const order = [];
+      while (queue.length > 0) order.push(queue.shift());
+      expect(order).toEqual(["fast-1", "fast-2", "normal-1", "normal-2"]);
+    });
+
+    it("should remove a waiter that timed out", () => {
+      const queue = new PriorityQueue<string>();
+      queue.push("a", NORMAL);
+      queue.push("b", NORMAL);
+
+      expect(queue.remove("a")).toBe(true);
+      expect(queue.remove("a")).toBe(false);
+      expect(queue.shift()).toBe("b");
+    });
+
+    it("should list waiters in serving order", () => {
+      const queue = new PriorityQueue<string>();
+      queue.push("slow", SLOW);
+      queue.push("fast", FAST);
+
+      expect(queue.items()).toEqual(["fast", "slow"]);
+      expect(queue.includes("slow")).toBe(true);
+      expect(queue.includes("normal")).toBe(false);
+    });
+
+    it("should count waiters per rank", () => {
+      const queue = new PriorityQueue<string>();
+      queue.push("a", FAST);
+      queue.push("b", SLOW);
+      queue.push("c", SLOW);
+
+      expect(queue.countByRank().get(FAST)).toBe(1);
+      expect(queue.countByRank().get(SLOW)).toBe(2);
+      expect(queue.countByRank().get(NORMAL)).toBeUndefined();
+    });
+  });
+
+  describe("selection strategies", () => {
+    const CRO = 10n ** 18n;
+
+    function relayer(address: string, overrides: Partial<RelayerCandidate> = {}): RelayerCandidate {
+      return { address, free: true, pendingTxCount: 0, lastUsed: 0, balanceWei: 50n * CRO, ...overrides };
+    }
+
+    function pickMany(select: () => RelayerCandidate | null, n: number): string[] {
+      return Array.from({ length: n }, () => select()?.address ?? "none");
+    }
+
+    it("should create the configured strategy", () => {
+      expect(createRelayerStrategy("weighted_balance")).toBeInstanceOf(WeightedBalanceStrategy);
+      expect(createRelayerStrategy("sticky_agent").name).toBe("sticky_agent");
+    });
+
+    describe("least_busy", () => {
+      it("should pick the free relayer idle the longest", () => {
+        const strategy = new LeastBusyStrategy();
+        const relayers = [
+          relayer("A", { lastUsed: 300 }),
+          relayer("B", { lastUsed: 100, free: false, pendingTxCount: 1 }),
+          relayer("C", { lastUsed: 200 }),
+        ];
+        expect(strategy.select(relayers)?.address).toBe("C");
+      });
+
+      it("should return null when every relayer is busy", () => {
+        expect(new LeastBusyStrategy().select([relayer("A", { free: false })])).toBeNull();
+      });
+    });
+
+    describe("round_robin", () => {
+      it("should cycle through the relayers, skipping busy ones", () => {
+        const strategy = new RoundRobinStrategy();
+        const relayers = [relayer("A"), relayer("B", { free: false }), relayer("C")];
+        expect(pickMany(() => strategy.select(relayers), 4)).toEqual(["A", "C", "A", "C"]);
+      });
+
+      it("should start over when the last relayer left rotation", () => {
+        const strategy = new RoundRobinStrategy();
+        strategy.select([relayer("A"), relayer("B")]);
+        strategy.select([relayer("A"), relayer("B")]);
+        expect(strategy.select([relayer("A"), relayer("C")])?.address).toBe("A");
+      });
+    });
+
+    describe("weighted_balance", () => {
+      it("should spread picks in proportion to CRO balance", () => {
+        const strategy = new WeightedBalanceStrategy();
+        const relayers = [relayer("A", { balanceWei: 30n * CRO }), relayer("B", { balanceWei: 10n * CRO })];
+        const picks = pickMany(() => strategy.select(relayers), 8);
+
+        expect(picks.filter((p) => p === "A")).toHaveLength(6);
+        expect(picks.slice(0, 4)).toEqual(["A", "A", "B", "A"]);
+      });
+
+      it("should skip busy relayers", () => {
+        const strategy = new WeightedBalanceStrategy();
+        const relayers = [relayer("A", { balanceWei: 90n * CRO, free: false }), relayer("B", { balanceWei: CRO })];
+        expect(pickMany(() => strategy.select(relayers), 2)).toEqual(["B", "B"]);
+      });
+
+      it("should fall back to least-busy before balances are known", () => {
+        const strategy = new WeightedBalanceStrategy();
+        const relayers = [relayer("A", { balanceWei: null, lastUsed: 9 }), relayer("B", { balanceWei: null })];
+        expect(strategy.select(relayers)?.address).toBe("B");
+      });
+    });
+
+    describe("sticky_agent", () => {
+      it("should keep an agent on its relayer, even while it is busy", () => {
+        const strategy = new StickyAgentStrategy();
+        expect(strategy.select([relayer("A"), relayer("B", { lastUsed: 5 })], "0xAgent")?.address).toBe("A");
+
+        const busy = strategy.select([relayer("A", { free: false, pendingTxCount: 1 }), relayer("B")], "0xagent");
+        expect(busy).toMatchObject({ address: "A", free: false });
+      });
+
+      it("should spread new agents over free relayers", () => {
+        const strategy = new StickyAgentStrategy();
+        strategy.select([relayer("A"), relayer("B", { lastUsed: 5 })], "0x1");
+        strategy.select([relayer("A", { free: false }), relayer("B", { lastUsed: 5 })], "0x2");
+
+        expect(strategy.assignedTo("0x1")).toBe("A");
+        expect(strategy.assignedTo("0x2")).toBe("B");
+      });
+
+      it("should reassign an agent whose relayer left rotation", () => {
+        const strategy = new StickyAgentStrategy();
+        strategy.select([relayer("A")], "0x1");
+        expect(strategy.select([relayer("B")], "0x1")?.address).toBe("B");
+        expect(strategy.assignedTo("0x1")).toBe("B");
+      });
+
+      it("should wait rather than assign when no relayer is free", () => {
+        const strategy = new StickyAgentStrategy();
+        expect(strategy.select([relayer("A", { free: false })], "0x1")).toBeNull();
+        expect(strategy.assignedTo("0x1")).toBeUndefined();
+      });
+
+      it("should forget the least recent agents past the limit", () => {
+        const strategy = new StickyAgentStrategy(2);
+        ["0x1", "0x2", "0x1", "0x3"].forEach((agent) => strategy.select([relayer("A")], agent));
+
+        expect(strategy.assignedTo("0x2")).toBeUndefined();
+        expect(strategy.getStatus()).toEqual({ agents: 2 });
+      });
+    });
+  });
+
+  describe("inclusion tracker", () => {
+    it("should report nothing before any sample", () => {
+      const tracker = new InclusionTracker<"fast">();
+      expect(tracker.getStats("fast")).toEqual({
+        count: 0,
+        avgMs: null,
+        p50Ms: null,
+        p95Ms: null,
+        bumpedPercent: null,
+      });
+    });
+
+    it("should summarise samples per tier", () => {
+      const tracker = new InclusionTracker<"fast" | "slow">();
+      [2000, 3000, 4000, 5000].forEach((ms, i) =>
+        tracker.record("fast", { inclusionMs: ms, bumps: i === 3 ? 1 : 0 })
+      );
+      tracker.record("slow", { inclusionMs: 30000, bumps: 0 });
+
+      expect(tracker.getStats("fast")).toEqual({
+        count: 4,
+        avgMs: 3500,
+        p50Ms: 3000,
+        p95Ms: 5000,
+        bumpedPercent: 25,
+      });
+      expect(tracker.getStats("slow").count).toBe(1);
+    });
+
+    it("should keep only the most recent window", () => {
+      const tracker = new InclusionTracker<"normal">(2);
+      tracker.record("normal", { inclusionMs: 100000, bumps: 0 });
+      tracker.record("normal", { inclusionMs: 1000, bumps: 0 });
+      tracker.record("normal", { inclusionMs: 3000, bumps: 0 });
+
+      expect(tracker.getStats("normal").avgMs).toBe(2000);
+    });
+
+    it("should use nearest-rank percentiles", () => {
+      expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 95)).toBe(10);
+      expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 50)).toBe(5);
+      expect(percentile([], 50)).toBeNull();
+    });
+  });
+
+  describe("ETA", () => {
+    it("should format seconds and minutes", () => {
+      expect(formatEta(200)).toBe("~1 sec");
+      expect(formatEta(12400)).toBe("~12 sec");
+      expect(formatEta(300000)).toBe("~5 min");
+    });
+
+    it("should use the configured estimate until enough samples exist", () => {
+      const tracker = new InclusionTracker<"fast">();
+      tracker.record("fast", { inclusionMs: 9000, bumps: 0 });
+
+      expect(estimateEta(tracker.getStats("fast"), "~3 sec")).toMatchObject({
+        estimatedTime: "~3 sec",
+        samples: 1,
+        source: "default",
+      });
+    });
+
+    it("should report the measured median once warmed up", () => {
+      const tracker = new InclusionTracker<"fast">();
+      [4000, 5000, 6000, 7000, 30000].forEach((ms) =>
+        tracker.record("fast", { inclusionMs: ms, bumps: 0 })
+      );
+
+      expect(estimateEta(tracker.getStats("fast"), "~3 sec")).toEqual({
+        estimatedTime: "~6 sec",
+        p50Ms: 6000,
+        p95Ms: 30000,
+        samples: 5,
+        source: "measured",
+      });
+    });
+  });
+
+  describe("relayer health", () => {
+    const CRO = 10n ** 18n;
+    const policy: RelayerHealthPolicy = { minBalanceWei: 1n * CRO, maxFailures: 3, cooldownMs: 60000 };
+    const t0 = 1_700_000_000_000;
+
+    it("should stay active until the balance is known", () => {
+      const health = new RelayerHealth(policy);
+      expect(health.update(0, t0)).toBe(false);
+      expect(health.status).toBe("active");
+    });
+
+    it("should quarantine a relayer low on CRO until it is topped up", () => {
+      const health = new RelayerHealth(policy);
+      health.setBalance(CRO / 2n);
+      expect(health.update(0, t0)).toBe(true);
+      expect(health).toMatchObject({ status: "quarantined", reason: "Low CRO balance" });
+
+      health.setBalance(50n * CRO);
+      expect(health.update(0, t0)).toBe(true);
+      expect(health).toMatchObject({ status: "active", reason: null });
+    });
+
+    it("should drain while transactions are in flight", () => {
+      const health = new RelayerHealth(policy);
+      health.setBalance(0n);
+      health.update(1, t0);
+      expect(health.status).toBe("draining");
+      health.update(0, t0);
+      expect(health.status).toBe("quarantined");
+    });
+
+    it("should quarantine after consecutive failures for the cooldown", () => {
+      const health = new RelayerHealth(policy);
+      health.recordOutcome(false, t0);
+      health.recordOutcome(false, t0);
+      health.update(0, t0);
+      expect(health.status).toBe("active");
+
+      health.recordOutcome(false, t0);
+      health.update(0, t0);
+      expect(health).toMatchObject({ status: "quarantined", reason: "3 failed relays in a row" });
+
+      health.update(0, t0 + 59999);
+      expect(health.status).toBe("quarantined");
+      health.update(0, t0 + 60000);
+      expect(health).toMatchObject({ status: "active", consecutiveFailures: 0 });
+    });
+
+    it("should reset the failure count on success", () => {
+      const health = new RelayerHealth(policy);
+      health.recordOutcome(false, t0);
+      health.recordOutcome(false, t0);
+      health.recordOutcome(true, t0);
+      health.recordOutcome(false, t0);
+      health.update(0, t0);
+      expect(health).toMatchObject({ status: "active", consecutiveFailures: 1 });
+    });
+
+    it("should keep a retiring relayer draining, whatever its balance", () => {
+      const health = new RelayerHealth(policy);
+      health.setBalance(0n);
+      health.retire();
+      health.update(0, t0);
+      expect(health).toMatchObject({ status: "draining", reason: "Retiring" });
+
+      health.setBalance(50n * CRO);
+      health.update(0, t0);
+      expect(health.status).toBe("draining");
+    });
+
+    it("should top up to the target only below the threshold", () => {
+      expect(topUpAmount(4n * CRO, 10n * CRO, 50n * CRO)).toBe(46n * CRO);
+      expect(topUpAmount(10n * CRO, 10n * CRO, 50n * CRO)).toBe(0n);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { OutcomeWindow, SurgeCurves, computeSurge, curveMultiplier } from "../utils/surge.js";
+
+// Test surge curves, the combined cap and the failure window
+
+describe("SurgeService", () => {
+  const curves: SurgeCurves = {
+    saturation: { start: 0.75, full: 2, max: 2 },
+    reserve: { start: 50, full: 10, max: 2 },
+    failures: { start: 0.05, full: 0.25, max: 1.5 },
+    maxMultiplier: 3,
+  };
+  const calm = { saturation: 0, reserveCro: 500, failureRate: 0 };
+
+  describe("curveMultiplier", () => {
+    it("should stay at 1 before the curve starts", () => {
+      expect(curveMultiplier(0.5, curves.saturation)).toBe(1);
+    });
+
+    it("should rise linearly between start and full", () => {
+      expect(curveMultiplier(1.375, curves.saturation)).toBeCloseTo(1.5);
+    });
+
+    it("should hold at max past full", () => {
+      expect(curveMultiplier(10, curves.saturation)).toBe(2);
+    });
+
+    it("should handle falling inputs like a draining reserve", () => {
+      expect(curveMultiplier(100, curves.reserve)).toBe(1);
+      expect(curveMultiplier(30, curves.reserve)).toBeCloseTo(1.5);
+      expect(curveMultiplier(0, curves.reserve)).toBe(2);
+    });
+  });
+
+  describe("computeSurge", () => {
+    it("should not surge a quiet pool", () => {
+      expect(computeSurge(calm, curves)).toEqual({
+        multiplier: 1,
+        components: { saturation: 1, reserve: 1, failures: 1 },
+        capped: false,
+      });
+    });
+
+    it("should multiply the components", () => {
+      const result = computeSurge({ ...calm, saturation: 2, failureRate: 0.15 }, curves);
+      expect(result.components.saturation).toBe(2);
+      expect(result.components.failures).toBeCloseTo(1.25);
+      expect(result.multiplier).toBe(2.5);
+    });
+
+    it("should cap the combined multiplier", () => {
+      const result = computeSurge({ saturation: 5, reserveCro: 0, failureRate: 1 }, curves);
+      expect(result.multiplier).toBe(3);
+      expect(result.capped).toBe(true);
+    });
+
+    it("should ignore unknown reserve and failure rate", () => {
+      const result = computeSurge({ saturation: 0, reserveCro: null, failureRate: null }, curves);
+      expect(result.multiplier).toBe(1);
+    });
+  });
+
+  describe("OutcomeWindow", () => {
+    it("should report no rate until it has enough samples", () => {
+      const window = new OutcomeWindow(10, 3);
+      window.record(false);
+      window.record(false);
+      expect(window.failureRate()).toBeNull();
+      window.record(true);
+      expect(window.failureRate()).toBeCloseTo(2 / 3);
+    });
+
+    it("should keep only the most recent outcomes", () => {
+      const window = new OutcomeWindow(2, 1);
+      window.record(false);
+      window.record(true);
+      window.record(true);
+      expect(window.failureRate()).toBe(0);
+    });
+  });
+});
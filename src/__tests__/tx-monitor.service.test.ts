@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { MAX_CANCEL_BUMPS, PendingTxState, TxPolicy, nextAction } from "../utils/tx-monitor.js";
+
+// Test when a pending relayer transaction is left alone, sped up or cancelled
+
+describe("TxMonitorService", () => {
+  const policy: TxPolicy = { slaMs: 10000, maxBumps: 2, timeoutMs: 300000 };
+  const t0 = 1_700_000_000_000;
+
+  function state(overrides: Partial<PendingTxState> = {}): PendingTxState {
+    return {
+      sentAt: t0,
+      lastSentAt: t0,
+      bumps: 0,
+      cancelBumps: 0,
+      cancelling: false,
+      deadline: null,
+      ...overrides,
+    };
+  }
+
+  describe("speed-ups", () => {
+    it("should wait within the SLA", () => {
+      expect(nextAction(state(), policy, t0 + 9999)).toBe("wait");
+    });
+
+    it("should bump once the SLA has passed", () => {
+      expect(nextAction(state(), policy, t0 + 10000)).toBe("bump");
+    });
+
+    it("should measure the SLA from the latest broadcast", () => {
+      const s = state({ bumps: 1, lastSentAt: t0 + 10000 });
+      expect(nextAction(s, policy, t0 + 15000)).toBe("wait");
+      expect(nextAction(s, policy, t0 + 20000)).toBe("bump");
+    });
+
+    it("should stop bumping after maxBumps and wait for the timeout", () => {
+      const s = state({ bumps: 2, lastSentAt: t0 + 20000 });
+      expect(nextAction(s, policy, t0 + 60000)).toBe("wait");
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should cancel once the agent's deadline has passed", () => {
+      const s = state({ deadline: t0 + 5000 });
+      expect(nextAction(s, policy, t0 + 5000)).toBe("wait");
+      expect(nextAction(s, policy, t0 + 5001)).toBe("cancel");
+    });
+
+    it("should cancel after the timeout even with bumps left", () => {
+      expect(nextAction(state({ lastSentAt: t0 + 299000 }), policy, t0 + 300000)).toBe("cancel");
+    });
+
+    it("should bump the cancellation past the SLA", () => {
+      const s = state({ cancelling: true, lastSentAt: t0 + 300000 });
+      expect(nextAction(s, policy, t0 + 305000)).toBe("wait");
+      expect(nextAction(s, policy, t0 + 310000)).toBe("bump");
+    });
+
+    it("should not cancel twice", () => {
+      const s = state({ cancelling: true, deadline: t0, lastSentAt: t0 + 1000 });
+      expect(nextAction(s, policy, t0 + 2000)).toBe("wait");
+    });
+
+    it("should give up after MAX_CANCEL_BUMPS", () => {
+      const s = state({ cancelling: true, cancelBumps: MAX_CANCEL_BUMPS, lastSentAt: t0 + 300000 });
+      expect(nextAction(s, policy, t0 + 305000)).toBe("wait");
+      expect(nextAction(s, policy, t0 + 310000)).toBe("give_up");
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { relayerPool } from "../services/relayer-pool.service.js";
+import { settlementService } from "../services/settlement.service.js";
+
+/**
+ * Relayer pool administration (enabled by ADMIN_API_KEY)
+ */
+
+const addRelayerSchema = z.union([
+  z.object({ privateKey: z.string().regex(/^0x[0-9a-fA-F]{64}$/) }).strict(),
+  z.object({ index: z.number().int().min(0).optional() }).strict(), // From RELAYER_MNEMONIC
+]);
+
+function relayerView(address: string) {
+  return relayerPool.getStats().relayers.find((r) => r.address === address);
+}
+
+/**
+ * GET /admin/relayers
+ * Relayers in the pool, and those retired since startup
+ */
+export function adminRelayersController(
+  req: Request,
+  res: Response
+): void {
+  const { strategy, relayers } = relayerPool.getStats();
+  res.status(200).json({
+    strategy,
+    relayers,
+    retired: relayerPool.getRetired(),
+  });
+}
+
+/**
+ * In atomic mode, a relayer the Settlement contract doesn't allow would
+ * have every relay revert
+ */
+async function settlementAllows(address: string): Promise<boolean> {
+  const notAllowed = await settlementService.checkRelayers([address]);
+  return notAllowed !== null && notAllowed.length === 0;
+}
+
+/**
+ * POST /admin/relayers
+ * Add a relayer: { privateKey } or { index? } to derive from the mnemonic
+ */
+export async function adminAddRelayerController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = addRelayerSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid request",
+        details: parsed.error.format(),
+      });
+      return;
+    }
+
+    const relayer = await relayerPool.addRelayer(
+      parsed.data,
+      settlementService.isEnabled ? settlementAllows : undefined
+    );
+    res.status(201).json(relayerView(relayer.address));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * DELETE /admin/relayers/:address
+ * Retire a relayer: drain it, sweep its CRO to the treasury, remove it
+ */
+export function adminRetireRelayerController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    const relayer = relayerPool.retireRelayer(req.params.address);
+    res.status(202).json(relayerView(relayer.address));
+  } catch (error) {
+    next(error);
+  }
+}
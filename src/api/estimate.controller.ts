@@ -1,7 +1,15 @@
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
-import { pricingService, PRIORITY_CONFIGS, Priority } from "../services/pricing.service.js";
+import { pricingService, PRIORITY_CONFIGS, PriceQuote, Priority } from "../services/pricing.service.js";
+import { inclusionService } from "../services/inclusion.service.js";
+import { gasOracle } from "../services/gas-oracle.service.js";
 import { logger } from "../utils/logger.js";
+import { describeFeePlan } from "../utils/fees.js";
+
+// How the fee breakdown turns into a USDC price
+const FEE_MODEL =
+  "priceUSDC = gas × (baseFee + priorityFee) × CRO/USD × markup × surge. " +
+  "maxFeePerGas only caps what the relayer may pay if the base fee rises; it is not charged.";
 
 const estimateQuerySchema = z.object({
   to: z.string().startsWith("0x").length(42),
@@ -10,6 +18,21 @@ const estimateQuerySchema = z.object({
   priority: z.enum(["slow", "normal", "fast"]).optional(),
 });
 
+/**
+ * One tier's price, fees and measured ETA
+ */
+function describeTier(quote: PriceQuote) {
+  const eta = inclusionService.getEta(quote.priority);
+  return {
+    emoji: PRIORITY_CONFIGS[quote.priority].emoji,
+    label: PRIORITY_CONFIGS[quote.priority].label,
+    priceUSDC: quote.finalPriceUSDC,
+    estimatedTime: eta.estimatedTime,
+    eta,
+    fees: describeFeePlan(quote.fees),
+  };
+}
+
 export async function estimateController(
   req: Request,
   res: Response,
@@ -34,13 +57,19 @@ export async function estimateController(
     // If specific priority requested, return single quote
     if (priority) {
       const quote = await pricingService.getQuote(to, data, valueBigInt, priority);
+      const eta = inclusionService.getEta(priority);
       res.status(200).json({
         gasEstimate: quote.gasEstimate.toString(),
         gasPriceGwei: quote.gasPriceGwei,
         croPrice: quote.croUsdPrice,
         priceUSDC: quote.finalPriceUSDC,
         priority: quote.priority,
-        estimatedTime: quote.priorityConfig.estimatedTime,
+        estimatedTime: eta.estimatedTime,
+        eta,
+        fees: describeFeePlan(quote.fees),
+        surgeMultiplier: quote.surge.multiplier,
+        feeModel: FEE_MODEL,
+        gasOracle: gasOracle.getStatus(),
         validFor: 60,
       });
       return;
@@ -53,26 +82,14 @@ export async function estimateController(
       gasEstimate: quotes.normal.gasEstimate.toString(),
       croPrice: quotes.normal.croUsdPrice,
       recommended: quotes.recommended,
+      surge: quotes.normal.surge,
       pricing: {
-        slow: {
-          emoji: PRIORITY_CONFIGS.slow.emoji,
-          label: PRIORITY_CONFIGS.slow.label,
-          priceUSDC: quotes.slow.finalPriceUSDC,
-          estimatedTime: PRIORITY_CONFIGS.slow.estimatedTime,
-        },
-        normal: {
-          emoji: PRIORITY_CONFIGS.normal.emoji,
-          label: PRIORITY_CONFIGS.normal.label,
-          priceUSDC: quotes.normal.finalPriceUSDC,
-          estimatedTime: PRIORITY_CONFIGS.normal.estimatedTime,
-        },
-        fast: {
-          emoji: PRIORITY_CONFIGS.fast.emoji,
-          label: PRIORITY_CONFIGS.fast.label,
-          priceUSDC: quotes.fast.finalPriceUSDC,
-          estimatedTime: PRIORITY_CONFIGS.fast.estimatedTime,
-        },
+        slow: describeTier(quotes.slow),
+        normal: describeTier(quotes.normal),
+        fast: describeTier(quotes.fast),
       },
+      feeModel: FEE_MODEL,
+      gasOracle: gasOracle.getStatus(),
       validFor: 60,
     });
   } catch (error) {
@@ -0,0 +1,222 @@
+import { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import {
+  paymentService,
+  X402Payment,
+  X402PaymentRequirements,
+} from "../services/payment.service.js";
+import { logger } from "../utils/logger.js";
+import { X402 } from "../config/constants.js";
+
+/**
+ * x402 facilitator API
+ *
+ * Lets other x402 resource servers hand CroGas a payment to verify or settle
+ * on Cronos, using the request/response shapes from the x402 spec.
+ */
+
+const authorizationSchema = z.object({
+  from: z.string().startsWith("0x"),
+  to: z.string().startsWith("0x"),
+  value: z.string(),
+  validAfter: z.string(),
+  validBefore: z.string(),
+  nonce: z.string().startsWith("0x"),
+});
+
+const paymentPayloadSchema = z.object({
+  x402Version: z.number().optional(),
+  version: z.number().optional(),
+  scheme: z.string(),
+  network: z.string(),
+  payload: z.object({
+    signature: z.string().startsWith("0x"),
+    authorization: authorizationSchema,
+  }),
+});
+
+const paymentRequirementsSchema = z.object({
+  scheme: z.string(),
+  network: z.string(),
+  asset: z.string().startsWith("0x"),
+  payTo: z.string().startsWith("0x"),
+  maxAmountRequired: z.string().regex(/^\d+$/),
+  description: z.string().optional(),
+  resource: z.string().optional(),
+  mimeType: z.string().optional(),
+  maxTimeoutSeconds: z.number().optional(),
+  extra: z.object({
+    name: z.string().optional(),
+    version: z.string().optional(),
+    primaryType: z.enum(["TransferWithAuthorization", "ReceiveWithAuthorization"]).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+// Accepts the decoded `paymentPayload` or the raw base64 `paymentHeader`
+const facilitatorRequestSchema = z.object({
+  x402Version: z.number().optional(),
+  paymentPayload: paymentPayloadSchema.optional(),
+  paymentHeader: z.string().optional(),
+  paymentRequirements: paymentRequirementsSchema,
+}).refine((body) => body.paymentPayload || body.paymentHeader, {
+  message: "paymentPayload or paymentHeader is required",
+});
+
+type ParsedRequest =
+  | { payment: X402Payment; requirements: X402PaymentRequirements }
+  | { error: unknown };
+
+function parseFacilitatorRequest(body: unknown): ParsedRequest {
+  const parsed = facilitatorRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.format() };
+  }
+
+  const { x402Version, paymentPayload, paymentHeader, paymentRequirements } = parsed.data;
+
+  // "upto" needs the resource server to report actual usage, which this API has no field for
+  if (paymentRequirements.scheme !== X402.SCHEME) {
+    return { error: `Unsupported scheme: ${paymentRequirements.scheme}` };
+  }
+
+  // Otherwise anyone could have our relayer pay gas to settle payments to themselves
+  if (!paymentService.isAllowedFacilitatorPayTo(paymentRequirements.payTo)) {
+    return { error: `payTo not allowed: ${paymentRequirements.payTo}` };
+  }
+
+  let payment: X402Payment | null;
+  if (paymentPayload) {
+    payment = {
+      version: paymentPayload.x402Version ?? paymentPayload.version ?? x402Version ?? X402.VERSION,
+      scheme: paymentPayload.scheme,
+      network: paymentPayload.network,
+      payload: paymentPayload.payload,
+    };
+  } else {
+    payment = paymentService.parsePaymentHeader(paymentHeader as string);
+  }
+
+  if (!payment?.payload?.authorization) {
+    return { error: "Could not parse payment payload" };
+  }
+
+  return { payment, requirements: paymentRequirements as X402PaymentRequirements };
+}
+
+/**
+ * POST /x402/verify
+ * Check a payment against requirements without settling it
+ */
+export async function facilitatorVerifyController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = parseFacilitatorRequest(req.body);
+    if ("error" in parsed) {
+      res.status(400).json({
+        error: "Invalid request",
+        details: parsed.error,
+      });
+      return;
+    }
+
+    const { payment, requirements } = parsed;
+    const verification = await paymentService.verifyPayment(payment, requirements);
+
+    logger.info("Facilitator verify", {
+      payer: verification.payer,
+      payTo: requirements.payTo,
+      isValid: verification.valid,
+      reason: verification.reason,
+    });
+
+    res.status(200).json({
+      isValid: verification.valid,
+      invalidReason: verification.reason,
+      payer: verification.payer,
+    });
+  } catch (error) {
+    logger.error("Facilitator verify error", { error });
+    next(error);
+  }
+}
+
+/**
+ * POST /x402/settle
+ * Verify a payment and submit it on-chain
+ */
+export async function facilitatorSettleController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = parseFacilitatorRequest(req.body);
+    if ("error" in parsed) {
+      res.status(400).json({
+        error: "Invalid request",
+        details: parsed.error,
+      });
+      return;
+    }
+
+    const { payment, requirements } = parsed;
+    const payer = payment.payload.authorization.from;
+
+    const verification = await paymentService.verifyPayment(payment, requirements);
+    if (!verification.valid) {
+      res.status(200).json({
+        success: false,
+        errorReason: verification.reason,
+        transaction: "",
+        network: requirements.network,
+        payer,
+      });
+      return;
+    }
+
+    try {
+      const settlement = await paymentService.executePayment(payment, requirements);
+
+      logger.info("Facilitator settle", {
+        payer,
+        payTo: requirements.payTo,
+        transaction: settlement.transaction,
+      });
+
+      res.status(200).json(settlement);
+    } catch (error) {
+      res.status(200).json({
+        success: false,
+        errorReason: error instanceof Error ? error.message : "Settlement failed",
+        transaction: "",
+        network: requirements.network,
+        payer,
+      });
+    }
+  } catch (error) {
+    logger.error("Facilitator settle error", { error });
+    next(error);
+  }
+}
+
+/**
+ * GET /x402/supported
+ * Payment kinds this facilitator can verify and settle
+ */
+export function facilitatorSupportedController(
+  req: Request,
+  res: Response
+): void {
+  res.status(200).json({
+    kinds: [
+      {
+        x402Version: X402.VERSION,
+        scheme: X402.SCHEME,
+        network: paymentService.getNetwork(),
+      },
+    ],
+  });
+}
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import { Contract, parseUnits, isAddress } from "ethers";
 import { walletService } from "../services/wallet.service.js";
+import { nonceService } from "../services/nonce.service.js";
 import { env } from "../config/env.js";
 import { logger } from "../utils/logger.js";
 
@@ -61,7 +62,9 @@ router.get("/:address", async (req: Request, res: Response) => {
       amount: "100 USDC",
     });
 
-    const tx = await usdcContract.mint(address, FAUCET_AMOUNT);
+    const tx = await nonceService.send(walletService.wallet, (nonce) =>
+      usdcContract.mint(address, FAUCET_AMOUNT, { nonce })
+    );
     const receipt = await tx.wait();
 
     // Update cooldown
@@ -1,9 +1,14 @@
 import { Request, Response, NextFunction } from "express";
 import { walletService } from "../services/wallet.service.js";
 import { transactionService } from "../services/transaction.service.js";
-import { pricingService } from "../services/pricing.service.js";
+import { priceOracle } from "../services/price-oracle.service.js";
 import { rebalanceService } from "../services/rebalance.service.js";
 import { relayerPool } from "../services/relayer-pool.service.js";
+import { inclusionService } from "../services/inclusion.service.js";
+import { surgeService } from "../services/surge.service.js";
+import { txMonitor } from "../services/tx-monitor.service.js";
+import { treasuryService } from "../services/treasury.service.js";
+import { paymentService } from "../services/payment.service.js";
 import { logger } from "../utils/logger.js";
 
 export async function healthController(
@@ -21,9 +26,42 @@ export async function healthController(
     // Get current gas price
     const gasPrice = await walletService.getGasPrice();
 
+    // Oracle status (quotes are refused while it is unhealthy)
+    const oracle = priceOracle.getStatus();
+
+    // Relayers in rotation (low CRO or repeated failures take one out)
+    const pool = relayerPool.getStats();
+
     // Determine health status
     const croThreshold = 10; // Alert if below 10 CRO
-    const isHealthy = parseFloat(balances.cro) >= croThreshold;
+    const hasCro = parseFloat(balances.cro) >= croThreshold;
+    const isHealthy = pool.activeRelayers > 0 && oracle.healthy;
+
+    const warnings: string[] = [];
+    if (!hasCro) warnings.push(`Low CRO balance: ${balances.cro} CRO (threshold: ${croThreshold})`);
+    if (!oracle.healthy) warnings.push(`Price oracle unavailable: ${oracle.reason}`);
+    if (oracle.manualPrice !== null) warnings.push(`Manual CRO price in use: $${oracle.manualPrice}`);
+    for (const relayer of pool.relayers) {
+      if (relayer.status !== "active") {
+        warnings.push(`Relayer ${relayer.address} ${relayer.status}: ${relayer.reason}`);
+      }
+    }
+
+    // Surge pricing (informational; quotes still go out)
+    const surge = surgeService.getStatus();
+    if (surge.multiplier > 1) warnings.push(`Surge pricing active: ${surge.multiplier}x`);
+
+    // Relayer transactions still waiting to be mined
+    const pendingTransactions = txMonitor.getStatus();
+    if (pendingTransactions.recent.stuck) {
+      warnings.push(`${pendingTransactions.recent.stuck} relay transaction(s) stuck`);
+    }
+
+    // "receive" mode payments not yet moved on to RECEIVING_WALLET
+    const pendingForwards = paymentService.getPendingForwards();
+    if (pendingForwards.count > 0) {
+      warnings.push(`${pendingForwards.strandedUsdc} USDC not yet forwarded to the receiving wallet`);
+    }
 
     res.status(isHealthy ? 200 : 503).json({
       status: isHealthy ? "healthy" : "degraded",
@@ -43,14 +81,19 @@ export async function healthController(
             : "1.000",
       },
       pricing: {
-        croUsdPrice: pricingService.getCroUsdPrice(),
+        croUsdPrice: oracle.price,
         currentGasPriceGwei: (Number(gasPrice) / 1e9).toFixed(0),
+        surgeMultiplier: surge.multiplier,
       },
-      warnings: isHealthy
-        ? []
-        : [`Low CRO balance: ${balances.cro} CRO (threshold: ${croThreshold})`],
+      surge,
+      oracle,
+      warnings,
       autoRebalance: rebalanceService.getStatus(),
-      relayerPool: relayerPool.getStats(),
+      relayerPool: pool,
+      treasury: await treasuryService.getStatus(),
+      inclusion: inclusionService.getStats(),
+      pendingTransactions,
+      pendingForwards,
     });
   } catch (error) {
     logger.error("Health check failed", { error });
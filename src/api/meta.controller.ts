@@ -1,11 +1,22 @@
 import { Request, Response, NextFunction } from "express";
+import { formatEther, formatUnits } from "ethers";
 import { z } from "zod";
-import { forwarderService, ForwardRequest } from "../services/forwarder.service.js";
+import { forwarderService, ForwardRequest, ExecuteResult, SimulationResult } from "../services/forwarder.service.js";
 import { paymentService } from "../services/payment.service.js";
-import { pricingService, Priority, PRIORITY_CONFIGS } from "../services/pricing.service.js";
+import { pricingService, PriceQuote, Priority, PRIORITY_CONFIGS } from "../services/pricing.service.js";
+import { refundService } from "../services/refund.service.js";
+import { settlementService } from "../services/settlement.service.js";
+import { quoteService, SignedQuote } from "../services/quote.service.js";
+import { inclusionService } from "../services/inclusion.service.js";
+import { previewService } from "../services/preview.service.js";
+import { splitBatchCharge } from "../utils/refund-policy.js";
+import { isPaymentBound } from "../utils/payment-binding.js";
+import { describeFeePlan } from "../utils/fees.js";
+import { applyDiscount, formatUsdc } from "../utils/price-math.js";
+import { RelayNotExecutedError, RelayPendingError, TransactionError, TX_ERROR_CODES } from "../utils/errors.js";
 import { logger } from "../utils/logger.js";
 import { env } from "../config/env.js";
-import { X402 } from "../config/constants.js";
+import { PRICING, X402 } from "../config/constants.js";
 
 const metaRelaySchema = z.object({
   request: z.object({
@@ -19,6 +30,7 @@ const metaRelaySchema = z.object({
   }),
   signature: z.string().startsWith("0x"),
   priority: z.enum(["slow", "normal", "fast"]).optional().default("normal"),
+  quoteId: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
 });
 
 const batchRelaySchema = z.object({
@@ -35,8 +47,147 @@ const batchRelaySchema = z.object({
     signature: z.string().startsWith("0x"),
   })).min(1).max(10),
   priority: z.enum(["slow", "normal", "fast"]).optional().default("normal"),
+  quoteId: z.string().regex(/^0x[0-9a-fA-F]{64}$/).optional(),
 });
 
+const metaEstimateSchema = z.object({
+  request: z.object({
+    from: z.string().startsWith("0x").length(42),
+    to: z.string().startsWith("0x").length(42),
+    value: z.string().optional().default("0"),
+    nonce: z.string().optional(), // Defaults to the forwarder's current nonce
+    deadline: z.string().optional(), // Defaults to an hour from now
+    data: z.string().startsWith("0x").optional().default("0x"),
+  }),
+  priority: z.enum(["slow", "normal", "fast"]).optional().default("normal"),
+});
+
+const metaPreviewSchema = z.object({
+  request: metaRelaySchema.shape.request,
+  signature: z.string().startsWith("0x").optional(), // Without one, the signature check is skipped
+});
+
+/**
+ * Split of a quoted price into gas and the CRO value the relayer sends
+ */
+function describeBreakdown(gasPriceRaw: bigint, quote: PriceQuote) {
+  return {
+    gasUSDC: formatUsdc(gasPriceRaw),
+    valueCRO: formatEther(quote.value),
+    valueUSDC: formatUsdc(quote.valueCostRaw),
+    valuePolicy: env.VALUE_POLICY,
+  };
+}
+
+/**
+ * Simulate a meta-transaction before it is quoted or paid for. Under
+ * SIMULATION_POLICY=reject a failing request throws TX_SIMULATION_FAILED;
+ * under "warn" the failure is returned to show alongside the quote.
+ * `index` names the item of a batch.
+ */
+async function simulateRelay(
+  request: ForwardRequest,
+  signature: string,
+  index?: number
+): Promise<SimulationResult | undefined> {
+  if (env.SIMULATION_POLICY === "off") return undefined;
+
+  const simulation = await forwarderService.simulate(request, signature);
+  if (simulation.success) return simulation;
+
+  const item = index === undefined ? "" : ` ${index}`;
+  const message = simulation.stage === "forwarder"
+    ? `Forwarder would reject ${index === undefined ? "the " : ""}meta-transaction${item}`
+    : `Meta-transaction${item} would revert`;
+  if (env.SIMULATION_POLICY === "reject") {
+    throw new TransactionError(`${message}: ${simulation.revert?.reason}`, TX_ERROR_CODES.SIMULATION_FAILED, {
+      index,
+      stage: simulation.stage,
+      revert: simulation.revert,
+    });
+  }
+  logger.warn(`${message}, relaying anyway`, {
+    from: request.from,
+    to: request.to,
+    reason: simulation.revert?.reason,
+  });
+  return simulation;
+}
+
+/**
+ * Simulate each batch item on its own against the current state. An item
+ * signed by the same address as an earlier one is skipped (null): its
+ * forwarder nonce isn't current until the earlier item has run.
+ */
+async function simulateBatch(
+  requests: Array<{ request: ForwardRequest; signature: string }>
+): Promise<Array<SimulationResult | null> | undefined> {
+  if (env.SIMULATION_POLICY === "off") return undefined;
+
+  const signers = new Set<string>();
+  const simulations: Array<SimulationResult | null> = [];
+  for (let i = 0; i < requests.length; i++) {
+    const { request, signature } = requests[i];
+    const signer = request.from.toLowerCase();
+    if (signers.has(signer)) {
+      simulations.push(null);
+      continue;
+    }
+    signers.add(signer);
+    simulations.push((await simulateRelay(request, signature, i)) ?? null);
+  }
+  return simulations;
+}
+
+/**
+ * Look up the quote a request names, replying 402 if it can't be redeemed
+ */
+function resolveQuote(
+  res: Response,
+  quoteId: string | undefined,
+  requestHash: string
+): { ok: boolean; quote?: SignedQuote } {
+  if (!quoteId) return { ok: true };
+
+  const check = quoteService.check(quoteId, requestHash);
+  if (!check.valid) {
+    res.status(402).json({
+      error: "QUOTE_INVALID",
+      message: check.reason,
+      quoteId,
+    });
+    return { ok: false };
+  }
+  return { ok: true, quote: check.quote };
+}
+
+/**
+ * Reply to a failed atomic settlement. Only one that was never sent, or was
+ * mined reverted or cancelled, is known to have taken no payment; the quote
+ * stays reserved while the outcome is unknown.
+ */
+function replyAtomicFailure(res: Response, error: unknown, what: string, quoteId?: string): void {
+  const details = error instanceof Error ? error.message : String(error);
+  if (error instanceof RelayNotExecutedError) {
+    if (quoteId) quoteService.release(quoteId);
+    res.status(500).json({
+      error: "RELAY_FAILED",
+      message: `${what} did not execute, no payment was taken`,
+      details,
+      txHash: error.details?.txHash,
+    });
+    return;
+  }
+  // Broadcast but not seen mined: follow it with GET /relays/:txHash
+  res.status(504).json({
+    error: "RELAY_PENDING",
+    message: `${what} outcome is unknown, the payment may still be taken`,
+    details,
+    txHash: error instanceof RelayPendingError ? error.details?.txHash : undefined,
+    status: "pending",
+  });
+}
+
 /**
  * POST /meta/relay
  * Relay a meta-transaction through the forwarder
@@ -56,7 +207,7 @@ export async function metaRelayController(
       return;
     }
 
-    const { request, signature, priority } = parsed.data;
+    const { request, signature, quoteId } = parsed.data;
     const paymentHeader = req.headers["x-payment"];
 
     // Verify the signature first
@@ -69,44 +220,75 @@ export async function metaRelayController(
       return;
     }
 
-    // Calculate price with priority
-    const quote = await pricingService.calculatePrice(BigInt(request.gas), priority);
+    // The relayer pays any CRO value, so it must be allowed (and is priced in)
+    const value = BigInt(request.value);
+    pricingService.assertValueAllowed(value);
+
+    // Catch a failing call before quoting it or moving any USDC
+    const simulation = await simulateRelay(request, signature);
+
+    // A quote from an earlier 402 fixes the price and priority
+    const requestHash = forwarderService.hashRequest(request);
+    const resolved = resolveQuote(res, quoteId, requestHash);
+    if (!resolved.ok) return;
+    const quoted = resolved.quote;
+    const priority = (quoted?.priority ?? parsed.data.priority) as Priority;
+
+    // Calculate price with priority (a redeemed quote needs no live price)
+    const quote = quoted ? null : await pricingService.calculatePrice(BigInt(request.gas), priority, value);
     const priorityConfig = PRIORITY_CONFIGS[priority];
+    const price = quoted ? BigInt(quoted.price) : quote!.finalPriceRaw;
+    const requirements = await paymentService.getPaymentRequirements(
+      price,
+      `Meta-transaction relay - ${request.gas} gas (${priorityConfig.label})`,
+      { resource: req.originalUrl, requestHash }
+    );
+
+    // "upto": same maximum, but only gas actually used is charged and the rest refunded.
+    // Needs the refund wallet, and a remote facilitator would not know the scheme.
+    const uptoRequirements = refundService.canSendRefunds && !paymentService.usesRemoteFacilitator
+      ? await paymentService.getPaymentRequirements(
+          price,
+          `Meta-transaction relay - up to ${request.gas} gas (${priorityConfig.label})`,
+          { resource: req.originalUrl, requestHash, scheme: X402.SCHEME_UPTO }
+        )
+      : null;
 
     if (!paymentHeader) {
-      // Return 402 with payment requirements
+      // Return 402 with payment requirements and a signed quote to redeem
+      const signedQuote = quoted ?? quoteService.issue(requestHash, quote!);
+      const preview = env.PREVIEW_IN_QUOTES ? await previewService.tryPreview(request, signature) : undefined;
       logger.info("Payment required for meta-relay", {
         from: request.from,
         to: request.to,
-        priceUSDC: quote.finalPriceUSDC,
+        priceUSDC: formatUnits(price, 6),
         priority,
+        quoteId: signedQuote.quoteId,
       });
 
       res.status(402).json({
         error: "Payment Required",
         x402: {
           version: X402.VERSION,
-          accepts: [
-            {
-              scheme: X402.SCHEME,
-              network: `${X402.NETWORK_PREFIX}:${env.CHAIN_ID}`,
-              asset: env.USDC_ADDRESS,
-              payTo: env.RECEIVING_WALLET,
-              maxAmountRequired: quote.finalPriceRaw.toString(),
-              description: `Meta-transaction relay - ${request.gas} gas (${priorityConfig.label})`,
-            },
-          ],
+          accepts: uptoRequirements ? [requirements, uptoRequirements] : [requirements],
         },
         quote: {
+          quoteId: signedQuote.quoteId,
           gasEstimate: request.gas,
-          gasPriceGwei: quote.gasPriceGwei,
-          croPrice: quote.croUsdPrice,
-          priceUSDC: quote.finalPriceUSDC,
+          gasPriceGwei: formatUnits(signedQuote.gasPrice, "gwei"),
+          croPrice: quote?.croUsdPrice,
+          fees: quote ? describeFeePlan(quote.fees) : undefined,
+          surgeMultiplier: quote?.surge.multiplier,
+          breakdown: quote ? describeBreakdown(quote.finalPriceRaw - quote.valueCostRaw, quote) : undefined,
+          priceUSDC: formatUnits(price, 6),
           priority,
           priorityEmoji: priorityConfig.emoji,
-          estimatedTime: priorityConfig.estimatedTime,
-          validUntil: quote.validUntil.toISOString(),
+          estimatedTime: inclusionService.getEta(priority).estimatedTime,
+          validUntil: new Date(signedQuote.validUntil * 1000).toISOString(),
+          simulation,
+          preview,
         },
+        signedQuote,
       });
       return;
     }
@@ -121,7 +303,21 @@ export async function metaRelayController(
       return;
     }
 
-    const verification = await paymentService.verifyPayment(payment, quote.finalPriceRaw);
+    // The payment must commit to this exact request, so it can't be reattached or raced
+    if (!isPaymentBound(payment.payload?.authorization?.nonce, requestHash)) {
+      res.status(402).json({
+        error: "PAYMENT_NOT_BOUND",
+        message: "Authorization nonce must equal the EIP-712 hash of the ForwardRequest",
+        requestHash,
+      });
+      return;
+    }
+
+    const accepted = payment.scheme === X402.SCHEME_UPTO && uptoRequirements
+      ? uptoRequirements
+      : requirements;
+
+    const verification = await paymentService.verifyPayment(payment, accepted);
     if (!verification.valid) {
       res.status(402).json({
         error: "PAYMENT_INVALID",
@@ -130,21 +326,115 @@ export async function metaRelayController(
       return;
     }
 
-    // Execute payment
-    let paymentTxHash: string;
-    try {
-      paymentTxHash = await paymentService.executePayment(payment);
-      logger.info("Payment executed", { paymentTxHash });
-    } catch (error) {
-      res.status(402).json({
-        error: "PAYMENT_FAILED",
-        message: "Failed to execute payment transfer",
-      });
+    const payer = payment.payload.authorization.from;
+    const paidAmount = BigInt(payment.payload.authorization.value);
+
+    // Hold the quote while paying so a concurrent request can't redeem it too
+    if (quoted && !quoteService.reserve(quoted.quoteId, requestHash).valid) {
+      resolveQuote(res, quoted.quoteId, requestHash);
       return;
     }
 
-    // Execute meta-transaction
-    const result = await forwarderService.execute(request, signature);
+    let paymentTxHash: string;
+    let result: ExecuteResult;
+    if (settlementService.isEnabled) {
+      // Payment and meta-transaction in one transaction: a revert charges nothing
+      try {
+        result = await settlementService.settleAndExecute(payment, request, signature, priority);
+        if (quoted) quoteService.complete(quoted.quoteId);
+      } catch (error) {
+        replyAtomicFailure(res, error, "Atomic settlement", quoted?.quoteId);
+        return;
+      }
+      paymentTxHash = result.txHash;
+      res.setHeader(X402.PAYMENT_RESPONSE_HEADER, paymentService.encodePaymentResponseHeader({
+        success: true,
+        transaction: result.txHash,
+        network: accepted.network,
+        payer,
+      }));
+      logger.info("Atomic settlement executed", { txHash: result.txHash, success: result.success });
+    } else {
+      // Execute payment
+      try {
+        const settlement = await paymentService.executePayment(payment, accepted);
+        paymentTxHash = settlement.transaction;
+        if (quoted) quoteService.complete(quoted.quoteId);
+        res.setHeader(X402.PAYMENT_RESPONSE_HEADER, paymentService.encodePaymentResponseHeader(settlement));
+        logger.info("Payment executed", { paymentTxHash, scheme: accepted.scheme });
+      } catch (error) {
+        if (quoted) quoteService.release(quoted.quoteId);
+        res.status(402).json({
+          error: "PAYMENT_FAILED",
+          message: "Failed to execute payment transfer",
+        });
+        return;
+      }
+
+      // Execute meta-transaction (the agent has paid, so failures are refunded per policy)
+      try {
+        result = await forwarderService.execute(request, signature, priority);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const refund = await refundService.refund({
+          failureClass: refundService.classifyExecutionError(request.deadline),
+          payer,
+          paidAmount,
+          paymentTxHash,
+          reason: message,
+        });
+        res.status(500).json({
+          error: "RELAY_FAILED",
+          message: "Meta-transaction failed after payment",
+          details: message,
+          paymentTxHash,
+          refund,
+        });
+        return;
+      }
+    }
+
+    // "upto": charge the gas actually used, the rest goes back to the agent
+    let charge;
+    let excessAmount = 0n;
+    if (accepted.scheme === X402.SCHEME_UPTO) {
+      const { costRaw, costUSDC } = pricingService.calculateActualCost(
+        result.gasUsed,
+        result.effectiveGasPrice,
+        priority,
+        paidAmount,
+        value
+      );
+      excessAmount = paidAmount - costRaw;
+      charge = {
+        scheme: X402.SCHEME_UPTO,
+        maxAmount: paidAmount.toString(),
+        chargedAmount: costRaw.toString(),
+        chargedUSDC: costUSDC,
+        gasUsed: result.gasUsed.toString(),
+        effectiveGasPrice: result.effectiveGasPrice.toString(),
+      };
+    }
+
+    let refund;
+    if (!result.success) {
+      refund = await refundService.refund({
+        failureClass: "inner_call_revert",
+        payer,
+        paidAmount: paidAmount - excessAmount,
+        excessAmount: excessAmount > 0n ? excessAmount : undefined,
+        paymentTxHash,
+        relayTxHash: result.txHash,
+      });
+    } else if (excessAmount > 0n) {
+      refund = await refundService.refundRemainder({
+        payer,
+        paidAmount,
+        excessAmount,
+        paymentTxHash,
+        relayTxHash: result.txHash,
+      });
+    }
 
     res.status(200).json({
       success: result.success,
@@ -152,6 +442,10 @@ export async function metaRelayController(
       paymentTxHash,
       result: result.result,
       priority,
+      inclusion: { inclusionMs: result.inclusionMs, bumps: result.bumps },
+      quoteId: quoted?.quoteId,
+      charge,
+      refund,
     });
   } catch (error) {
     logger.error("Meta-relay error", { error });
@@ -178,7 +472,7 @@ export async function metaBatchController(
       return;
     }
 
-    const { requests, priority } = parsed.data;
+    const { requests, quoteId } = parsed.data;
     const paymentHeader = req.headers["x-payment"];
 
     // Verify all signatures first
@@ -195,50 +489,72 @@ export async function metaBatchController(
       }
     }
 
+    // CRO value across the whole batch is checked and priced together
+    const totalValue = requests.reduce((sum, r) => sum + BigInt(r.request.value), 0n);
+    pricingService.assertValueAllowed(totalValue);
+
+    // Catch failing items before quoting the batch or moving any USDC
+    const simulations = await simulateBatch(requests);
+
+    // A quote from an earlier 402 fixes the price and priority
+    const requestHash = forwarderService.hashBatch(requests.map((r) => r.request));
+    const resolved = resolveQuote(res, quoteId, requestHash);
+    if (!resolved.ok) return;
+    const quoted = resolved.quote;
+    const priority = (quoted?.priority ?? parsed.data.priority) as Priority;
+
     // Calculate total gas and price
     const totalGas = requests.reduce((sum, r) => sum + BigInt(r.request.gas), 0n);
-    const quote = await pricingService.calculatePrice(totalGas, priority);
+    const quote = quoted ? null : await pricingService.calculatePrice(totalGas, priority, totalValue);
     const priorityConfig = PRIORITY_CONFIGS[priority];
 
-    // Apply batch discount (10% off for batching)
-    const discountedPrice = (quote.finalPriceRaw * 90n) / 100n;
-    const discountedPriceUSDC = (Number(discountedPrice) / 1e6).toFixed(6);
+    // Apply batch discount to the gas part (rounded up, like every price)
+    const discountPercent = Number(PRICING.BATCH_DISCOUNT_BPS) / 100;
+    const discountedGasPrice = quote
+      ? applyDiscount(quote.finalPriceRaw - quote.valueCostRaw, PRICING.BATCH_DISCOUNT_BPS)
+      : 0n;
+    const discountedPrice = quoted ? BigInt(quoted.price) : discountedGasPrice + quote!.valueCostRaw;
+    const valueCost = quoted ? quoteService.getValueCost(quoted.quoteId) : quote!.valueCostRaw;
+    const discountedPriceUSDC = formatUsdc(discountedPrice);
+    const requirements = await paymentService.getPaymentRequirements(
+      discountedPrice,
+      `Batch relay - ${requests.length} transactions (${discountPercent}% discount)`,
+      { resource: req.originalUrl, requestHash }
+    );
 
     if (!paymentHeader) {
-      // Return 402 with payment requirements
+      // Return 402 with payment requirements and a signed quote to redeem
+      const signedQuote = quoted ?? quoteService.issue(requestHash, quote!, discountedPrice);
       logger.info("Payment required for batch relay", {
         count: requests.length,
         totalGas: totalGas.toString(),
         priceUSDC: discountedPriceUSDC,
         priority,
+        quoteId: signedQuote.quoteId,
       });
 
       res.status(402).json({
         error: "Payment Required",
         x402: {
           version: X402.VERSION,
-          accepts: [
-            {
-              scheme: X402.SCHEME,
-              network: `${X402.NETWORK_PREFIX}:${env.CHAIN_ID}`,
-              asset: env.USDC_ADDRESS,
-              payTo: env.RECEIVING_WALLET,
-              maxAmountRequired: discountedPrice.toString(),
-              description: `Batch relay - ${requests.length} transactions (10% discount)`,
-            },
-          ],
+          accepts: [requirements],
         },
         quote: {
+          quoteId: signedQuote.quoteId,
           transactionCount: requests.length,
           totalGas: totalGas.toString(),
-          originalPriceUSDC: quote.finalPriceUSDC,
-          discountPercent: 10,
+          originalPriceUSDC: quote?.finalPriceUSDC,
+          discountPercent,
+          surgeMultiplier: quote?.surge.multiplier,
+          breakdown: quote ? describeBreakdown(discountedGasPrice, quote) : undefined,
           priceUSDC: discountedPriceUSDC,
           priority,
           priorityEmoji: priorityConfig.emoji,
-          estimatedTime: priorityConfig.estimatedTime,
-          validUntil: quote.validUntil.toISOString(),
+          estimatedTime: inclusionService.getEta(priority).estimatedTime,
+          validUntil: new Date(signedQuote.validUntil * 1000).toISOString(),
+          simulations,
         },
+        signedQuote,
       });
       return;
     }
@@ -253,7 +569,17 @@ export async function metaBatchController(
       return;
     }
 
-    const verification = await paymentService.verifyPayment(payment, discountedPrice);
+    // The payment must commit to this exact batch, in this order
+    if (!isPaymentBound(payment.payload?.authorization?.nonce, requestHash)) {
+      res.status(402).json({
+        error: "PAYMENT_NOT_BOUND",
+        message: "Authorization nonce must equal keccak256(abi.encode(bytes32[] requestHashes))",
+        requestHash,
+      });
+      return;
+    }
+
+    const verification = await paymentService.verifyPayment(payment, requirements);
     if (!verification.valid) {
       res.status(402).json({
         error: "PAYMENT_INVALID",
@@ -262,40 +588,114 @@ export async function metaBatchController(
       return;
     }
 
-    // Execute payment first
-    let paymentTxHash: string;
-    try {
-      paymentTxHash = await paymentService.executePayment(payment);
-      logger.info("Batch payment executed", { paymentTxHash });
-    } catch (error) {
-      res.status(402).json({
-        error: "PAYMENT_FAILED",
-        message: "Failed to execute payment transfer",
-      });
+    // Hold the quote while paying so a concurrent request can't redeem it too
+    if (quoted && !quoteService.reserve(quoted.quoteId, requestHash).valid) {
+      resolveQuote(res, quoted.quoteId, requestHash);
       return;
     }
 
-    // Execute all meta-transactions
-    const results = [];
-    for (const { request, signature } of requests) {
+    let paymentTxHash: string;
+    const results: Array<{
+      success: boolean;
+      txHash?: string;
+      error?: string;
+      to: string;
+      inclusionMs?: number;
+      bumps?: number;
+    }> = [];
+
+    if (settlementService.isEnabled) {
+      // One transaction pays for and runs the whole batch: a revert charges nothing
       try {
-        const result = await forwarderService.execute(request, signature);
-        results.push({
-          success: result.success,
-          txHash: result.txHash,
-          to: request.to,
+        const batch = await settlementService.settleAndExecuteBatch(payment, requests, priority);
+        paymentTxHash = batch.txHash;
+        if (quoted) quoteService.complete(quoted.quoteId);
+        requests.forEach(({ request }, i) => {
+          results.push({
+            success: batch.results[i]?.success ?? false,
+            txHash: batch.txHash,
+            to: request.to,
+            inclusionMs: batch.inclusionMs,
+            bumps: batch.bumps,
+          });
         });
       } catch (error) {
-        results.push({
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
-          to: request.to,
+        replyAtomicFailure(res, error, "Atomic batch settlement", quoted?.quoteId);
+        return;
+      }
+      res.setHeader(X402.PAYMENT_RESPONSE_HEADER, paymentService.encodePaymentResponseHeader({
+        success: true,
+        transaction: paymentTxHash,
+        network: requirements.network,
+        payer: payment.payload.authorization.from,
+      }));
+      logger.info("Atomic batch settlement executed", { txHash: paymentTxHash });
+    } else {
+      // Execute payment first
+      try {
+        const settlement = await paymentService.executePayment(payment, requirements);
+        paymentTxHash = settlement.transaction;
+        if (quoted) quoteService.complete(quoted.quoteId);
+        res.setHeader(X402.PAYMENT_RESPONSE_HEADER, paymentService.encodePaymentResponseHeader(settlement));
+        logger.info("Batch payment executed", { paymentTxHash });
+      } catch (error) {
+        if (quoted) quoteService.release(quoted.quoteId);
+        res.status(402).json({
+          error: "PAYMENT_FAILED",
+          message: "Failed to execute payment transfer",
         });
+        return;
+      }
+
+      // Execute all meta-transactions
+      for (const { request, signature } of requests) {
+        try {
+          const result = await forwarderService.execute(request, signature, priority);
+          results.push({
+            success: result.success,
+            txHash: result.txHash,
+            to: request.to,
+            inclusionMs: result.inclusionMs,
+            bumps: result.bumps,
+          });
+        } catch (error) {
+          results.push({
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+            to: request.to,
+          });
+        }
       }
     }
 
     const successCount = results.filter(r => r.success).length;
 
+    // Refund the failed items' gas-weighted share of the payment under the
+    // rule, and what they paid for CRO value in full
+    let refund;
+    if (successCount < results.length) {
+      const shares = splitBatchCharge(
+        BigInt(payment.payload.authorization.value),
+        valueCost,
+        requests.map(r => ({ gas: BigInt(r.request.gas), value: BigInt(r.request.value) }))
+      );
+      let failedGasShare = 0n;
+      let failedValueShare = 0n;
+      results.forEach((r, i) => {
+        if (r.success) return;
+        failedGasShare += shares[i].gas;
+        failedValueShare += shares[i].value;
+      });
+      refund = await refundService.refund({
+        failureClass: "batch_item_failed",
+        payer: payment.payload.authorization.from,
+        paidAmount: failedGasShare,
+        valueAmount: failedValueShare > 0n ? failedValueShare : undefined,
+        paymentTxHash,
+        reason: `${results.length - successCount} of ${results.length} batch items failed`,
+      });
+    }
+
     res.status(200).json({
       success: successCount === results.length,
       successCount,
@@ -303,6 +703,8 @@ export async function metaBatchController(
       paymentTxHash,
       results,
       priority,
+      quoteId: quoted?.quoteId,
+      refund,
     });
   } catch (error) {
     logger.error("Batch relay error", { error });
@@ -310,6 +712,85 @@ export async function metaBatchController(
   }
 }
 
+/**
+ * POST /meta/estimate
+ * Gas to sign into an unsigned ForwardRequest, the relayer's outer gas and
+ * the price /meta/relay will quote for it
+ */
+export async function metaEstimateController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = metaEstimateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid request",
+        details: parsed.error.format(),
+      });
+      return;
+    }
+
+    const { priority } = parsed.data;
+    const request = {
+      ...parsed.data.request,
+      nonce: parsed.data.request.nonce ?? (await forwarderService.getNonce(parsed.data.request.from)).toString(),
+      deadline: parsed.data.request.deadline ?? String(Math.floor(Date.now() / 1000) + 3600),
+    };
+
+    const estimate = await forwarderService.estimate(request);
+    const quote = await pricingService.calculatePrice(estimate.gas, priority, BigInt(request.value));
+
+    res.status(200).json({
+      gas: estimate.gas.toString(),
+      outerGas: estimate.outerGas.toString(),
+      innerTxEstimate: estimate.innerTxEstimate.toString(),
+      method: estimate.method,
+      nonce: request.nonce,
+      priority,
+      priceUSDC: quote.finalPriceUSDC,
+      fees: describeFeePlan(quote.fees),
+      breakdown: describeBreakdown(quote.finalPriceRaw - quote.valueCostRaw, quote),
+      estimatedTime: inclusionService.getEta(priority).estimatedTime,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * POST /meta/preview
+ * What a meta-transaction would do: call tree, token transfers and approvals,
+ * CRO balance changes
+ */
+export async function metaPreviewController(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parsed = metaPreviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "Invalid request",
+        details: parsed.error.format(),
+      });
+      return;
+    }
+
+    const { request, signature } = parsed.data;
+    const preview = await previewService.preview(request, signature);
+
+    res.status(200).json({
+      requestHash: forwarderService.hashRequest(request),
+      ...preview,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * GET /meta/nonce/:address
  * Get current nonce for an address
@@ -350,5 +831,6 @@ export function metaDomainController(
     domain: forwarderService.getDomain(),
     types: forwarderService.getTypes(),
     forwarderAddress: env.FORWARDER_ADDRESS,
+    quote: quoteService.getVerificationInfo(),
   });
 }
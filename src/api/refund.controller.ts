@@ -0,0 +1,46 @@
+import { Request, Response } from "express";
+import { isAddress } from "ethers";
+import { refundService } from "../services/refund.service.js";
+
+/**
+ * GET /refunds?payer=0x...
+ * Recent refunds, optionally filtered by payer
+ */
+export function refundListController(
+  req: Request,
+  res: Response
+): void {
+  const payer = typeof req.query.payer === "string" ? req.query.payer : undefined;
+  if (payer && !isAddress(payer)) {
+    res.status(400).json({
+      error: "Invalid request",
+      message: "payer must be an address",
+    });
+    return;
+  }
+
+  res.status(200).json({
+    rules: refundService.getRules(),
+    refunds: refundService.getRefunds(payer),
+  });
+}
+
+/**
+ * GET /refunds/:id
+ * Look up a single refund record
+ */
+export function refundGetController(
+  req: Request,
+  res: Response
+): void {
+  const refund = refundService.getRefund(req.params.id);
+  if (!refund) {
+    res.status(404).json({
+      error: "NOT_FOUND",
+      message: "Refund not found",
+    });
+    return;
+  }
+
+  res.status(200).json(refund);
+}
@@ -2,9 +2,9 @@ import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { transactionService } from "../services/transaction.service.js";
 import { paymentService } from "../services/payment.service.js";
+import { txMonitor } from "../services/tx-monitor.service.js";
 import { logger } from "../utils/logger.js";
 import { GasStationError } from "../utils/errors.js";
-import { env } from "../config/env.js";
 import { X402 } from "../config/constants.js";
 
 const relayRequestSchema = z.object({
@@ -41,6 +41,11 @@ export async function relayController(
     if (!paymentHeader) {
       // No payment - return 402 with price quote
       const { decoded, quote } = await transactionService.getQuoteForTransaction(signedTx);
+      const requirements = await paymentService.getPaymentRequirements(
+        quote.finalPriceRaw,
+        `Transaction relay - ${quote.gasEstimate.toString()} gas estimated`,
+        { resource: req.originalUrl }
+      );
 
       logger.info("Payment required for relay", {
         from: decoded.from,
@@ -52,21 +57,13 @@ export async function relayController(
         error: "Payment Required",
         x402: {
           version: X402.VERSION,
-          accepts: [
-            {
-              scheme: X402.SCHEME,
-              network: `${X402.NETWORK_PREFIX}:${env.CHAIN_ID}`,
-              asset: env.USDC_ADDRESS,
-              payTo: env.RECEIVING_WALLET,
-              maxAmountRequired: quote.finalPriceRaw.toString(),
-              description: `Transaction relay - ${quote.gasEstimate.toString()} gas estimated`,
-            },
-          ],
+          accepts: [requirements],
         },
         quote: {
           gasEstimate: quote.gasEstimate.toString(),
           gasPriceGwei: quote.gasPriceGwei,
           croPrice: quote.croUsdPrice,
+          surgeMultiplier: quote.surge.multiplier,
           priceUSDC: quote.finalPriceUSDC,
           validUntil: quote.validUntil.toISOString(),
         },
@@ -87,9 +84,14 @@ export async function relayController(
 
     // Get quote to know expected amount
     const { quote } = await transactionService.getQuoteForTransaction(signedTx);
+    const requirements = await paymentService.getPaymentRequirements(
+      quote.finalPriceRaw,
+      `Transaction relay - ${quote.gasEstimate.toString()} gas estimated`,
+      { resource: req.originalUrl }
+    );
 
     // Verify payment
-    const verification = await paymentService.verifyPayment(payment, quote.finalPriceRaw);
+    const verification = await paymentService.verifyPayment(payment, requirements);
     if (!verification.valid) {
       res.status(402).json({
         error: "PAYMENT_INVALID",
@@ -101,7 +103,9 @@ export async function relayController(
     // Execute the payment (transferWithAuthorization)
     let paymentTxHash: string;
     try {
-      paymentTxHash = await paymentService.executePayment(payment);
+      const settlement = await paymentService.executePayment(payment, requirements);
+      paymentTxHash = settlement.transaction;
+      res.setHeader(X402.PAYMENT_RESPONSE_HEADER, paymentService.encodePaymentResponseHeader(settlement));
       logger.info("Payment executed", { paymentTxHash });
     } catch (error) {
       res.status(402).json({
@@ -138,3 +142,24 @@ export async function relayController(
     next(error);
   }
 }
+
+/**
+ * GET /relays/:txHash
+ * Status of a relayed transaction, by its original hash or any
+ * speed-up/cancellation sent for it
+ */
+export function relayStatusController(
+  req: Request,
+  res: Response
+): void {
+  const record = txMonitor.getRecord(req.params.txHash);
+  if (!record) {
+    res.status(404).json({
+      error: "NOT_FOUND",
+      message: "Relay not found",
+    });
+    return;
+  }
+
+  res.status(200).json(record);
+}
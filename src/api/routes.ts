@@ -1,26 +1,68 @@
 import { Router } from "express";
-import { relayController } from "./relay.controller.js";
+import { relayController, relayStatusController } from "./relay.controller.js";
 import { estimateController } from "./estimate.controller.js";
 import { healthController } from "./health.controller.js";
 import {
   metaRelayController,
   metaBatchController,
+  metaEstimateController,
+  metaPreviewController,
   metaNonceController,
   metaDomainController,
 } from "./meta.controller.js";
+import {
+  facilitatorVerifyController,
+  facilitatorSettleController,
+  facilitatorSupportedController,
+} from "./facilitator.controller.js";
+import { refundListController, refundGetController } from "./refund.controller.js";
+import {
+  adminRelayersController,
+  adminAddRelayerController,
+  adminRetireRelayerController,
+} from "./admin.controller.js";
 import faucetRouter from "./faucet.controller.js";
+import { bearerAuth } from "../middleware/auth.middleware.js";
+import { env } from "../config/env.js";
 
 const router = Router();
 
 // Transaction relay endpoint (raw signed tx - limited use)
 router.post("/relay", relayController);
 
+// Status of relayed meta-transactions, including speed-ups and cancellations
+router.get("/relays/:txHash", relayStatusController);
+
 // Meta-transaction endpoints (recommended)
 router.post("/meta/relay", metaRelayController);
 router.post("/meta/batch", metaBatchController);
+router.post("/meta/estimate", metaEstimateController);
+router.post("/meta/preview", metaPreviewController);
 router.get("/meta/nonce/:address", metaNonceController);
 router.get("/meta/domain", metaDomainController);
 
+// x402 facilitator endpoints (verify/settle payments for other resource servers;
+// only with FACILITATOR_AUTH_TOKEN set, since settling spends relayer gas)
+if (env.FACILITATOR_AUTH_TOKEN) {
+  const facilitatorAuth = bearerAuth(env.FACILITATOR_AUTH_TOKEN);
+  router.get("/x402/supported", facilitatorSupportedController);
+  router.post("/x402/verify", facilitatorAuth, facilitatorVerifyController);
+  router.post("/x402/settle", facilitatorAuth, facilitatorSettleController);
+}
+
+// Refund for a paid relay that failed, by the id in the relay response
+router.get("/refunds/:id", refundGetController);
+
+// Relayer pool administration and every payer's refunds
+// (only with ADMIN_API_KEY set; bearerAuth would leave them open)
+if (env.ADMIN_API_KEY) {
+  const adminAuth = bearerAuth(env.ADMIN_API_KEY);
+  router.get("/refunds", adminAuth, refundListController);
+  router.get("/admin/relayers", adminAuth, adminRelayersController);
+  router.post("/admin/relayers", adminAuth, adminAddRelayerController);
+  router.delete("/admin/relayers/:address", adminAuth, adminRetireRelayerController);
+}
+
 // Price estimation endpoint
 router.get("/estimate", estimateController);
 
@@ -39,8 +81,15 @@ router.get("/", (req, res) => {
     endpoints: {
       "POST /meta/relay": "Relay single meta-transaction",
       "POST /meta/batch": "Batch multiple transactions (10% discount)",
+      "POST /meta/estimate": "Gas and price for an unsigned meta-transaction",
+      "POST /meta/preview": "Call tree, token transfers and CRO changes of a meta-transaction",
       "GET /meta/nonce/:address": "Get nonce for signing",
       "GET /meta/domain": "Get EIP-712 domain",
+      "GET /relays/:txHash": "Status of a relay, including speed-ups and cancellations",
+      "POST /x402/verify": "x402 facilitator: verify a payment",
+      "POST /x402/settle": "x402 facilitator: settle a payment",
+      "GET /x402/supported": "x402 facilitator: supported payment kinds",
+      "GET /refunds/:id": "Look up a refund",
       "GET /faucet/:address": "Get 100 TestUSDC",
       "GET /estimate": "Get pricing for all tiers",
       "GET /health": "Service status",
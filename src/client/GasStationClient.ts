@@ -14,20 +14,59 @@ export interface GasStationConfig {
   wallet: Wallet;
   usdcAddress: string;
   chainId: number;
+  /** "upto" pays only for gas actually used when the server offers it (default "exact") */
+  paymentScheme?: "exact" | "upto";
 }
 
 export interface RelayResult {
   success: boolean;
   txHash: string;
   paymentTxHash?: string;
+  settlement?: PaymentSettlement;
+  charge?: UptoCharge;
+  inclusion?: { inclusionMs: number; bumps: number };
   result?: string;
 }
 
+export interface UptoCharge {
+  scheme: "upto";
+  maxAmount: string;
+  chargedAmount: string;
+  chargedUSDC: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+}
+
+export interface PaymentSettlement {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer: string;
+}
+
+export interface MetaEstimate {
+  gas: string;       // Recommended ForwardRequest gas
+  outerGas: string;  // Relayer transaction gas limit
+  method: "state_override" | "floor";
+  nonce: string;
+  priority: "slow" | "normal" | "fast";
+  priceUSDC: string;
+  estimatedTime: string;
+}
+
 export interface PriceQuote {
+  quoteId?: string;
   gasEstimate: string;
   gasPriceGwei: string;
   croPrice: number;
   priceUSDC: string;
+  // Gas vs. CRO value sent on the agent's behalf
+  breakdown?: {
+    gasUSDC: string;
+    valueCRO: string;
+    valueUSDC: string;
+    valuePolicy: "charge" | "cap" | "reject";
+  };
   validUntil: string;
 }
 
@@ -52,21 +91,47 @@ interface MetaDomain {
     ForwardRequest: Array<{ name: string; type: string }>;
   };
   forwarderAddress: string;
+  quote?: {
+    domain: { name: string; version: string; chainId: number };
+    types: { GasQuote: Array<{ name: string; type: string }> };
+    signer: string;
+  };
+}
+
+/** EIP-712 signed quote from a 402, redeemable by quoteId */
+export interface SignedQuote {
+  quoteId: string;
+  requestHash: string;
+  price: string;
+  gas: string;
+  gasPrice: string;
+  priority: string;
+  validUntil: number;
+  signature: string;
+  signer: string;
+}
+
+interface PaymentRequirements {
+  scheme: string;
+  network: string;
+  asset: string;
+  payTo: string;
+  maxAmountRequired: string;
+  extra?: {
+    name?: string;
+    version?: string;
+    primaryType?: "TransferWithAuthorization" | "ReceiveWithAuthorization";
+  };
 }
 
 interface X402Response {
   error: string;
   x402: {
     version: number;
-    accepts: Array<{
-      scheme: string;
-      network: string;
-      asset: string;
-      payTo: string;
-      maxAmountRequired: string;
-    }>;
+    accepts: PaymentRequirements[];
   };
   quote: PriceQuote;
+  signedQuote?: SignedQuote;
 }
 
 export class GasStationClient {
@@ -115,6 +180,30 @@ export class GasStationClient {
     return (await response.json()) as PriceQuote;
   }
 
+  /**
+   * Gas and price for a meta-transaction before it is signed, simulated
+   * through the forwarder (POST /meta/estimate)
+   */
+  async estimateMeta(params: { to: string; data?: string; value?: bigint }): Promise<MetaEstimate> {
+    const response = await fetch(`${this.config.apiUrl}/meta/estimate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        request: {
+          from: this.config.wallet.address,
+          to: params.to,
+          value: (params.value ?? 0n).toString(),
+          data: params.data ?? "0x",
+        },
+      }),
+    });
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { message?: string };
+      throw new Error(`Meta estimate failed: ${error.message ?? response.statusText}`);
+    }
+    return (await response.json()) as MetaEstimate;
+  }
+
   /**
    * Execute a transaction through the Gas Station
    * Agent signs a meta-transaction, pays with USDC
@@ -146,12 +235,13 @@ export class GasStationClient {
   }): Promise<ForwardRequest> {
     const nonce = await this.getNonce();
     const deadline = Math.floor(Date.now() / 1000) + 3600; // 1 hour
+    const gas = params.gasLimit ?? BigInt((await this.estimateMeta(params)).gas);
 
     return {
       from: this.config.wallet.address,
       to: params.to,
       value: (params.value ?? 0n).toString(),
-      gas: (params.gasLimit ?? 100000n).toString(),
+      gas: gas.toString(),
       nonce,
       deadline: deadline.toString(),
       data: params.data ?? "0x",
@@ -163,8 +253,20 @@ export class GasStationClient {
    */
   private async signRequest(request: ForwardRequest): Promise<string> {
     const { domain, types } = await this.getMetaDomain();
+    return this.config.wallet.signTypedData(domain, types, this.toTypedRequest(request));
+  }
 
-    const value = {
+  /**
+   * EIP-712 hash of a ForwardRequest. The server requires it as the USDC
+   * authorization nonce, which binds the payment to this request.
+   */
+  private async hashRequest(request: ForwardRequest): Promise<string> {
+    const { domain, types } = await this.getMetaDomain();
+    return ethers.TypedDataEncoder.hash(domain, types, this.toTypedRequest(request));
+  }
+
+  private toTypedRequest(request: ForwardRequest) {
+    return {
       from: request.from,
       to: request.to,
       value: BigInt(request.value),
@@ -173,8 +275,6 @@ export class GasStationClient {
       deadline: BigInt(request.deadline),
       data: request.data,
     };
-
-    return this.config.wallet.signTypedData(domain, types, value);
   }
 
   /**
@@ -199,30 +299,40 @@ export class GasStationClient {
 
     // Step 2: Parse 402 and prepare payment
     const x402Response = (await initialResponse.json()) as X402Response;
-    const paymentInfo = x402Response.x402.accepts[0];
+    const { accepts } = x402Response.x402;
+    const paymentInfo =
+      accepts.find((a) => a.scheme === (this.config.paymentScheme ?? "exact")) ?? accepts[0];
 
     console.log(`Payment required: ${x402Response.quote.priceUSDC} USDC`);
 
-    // Step 3: Create USDC authorization (EIP-3009)
+    // Step 3: Check the signed quote before paying
+    const requestHash = await this.hashRequest(request);
+    const { signedQuote } = x402Response;
+    if (signedQuote) {
+      await this.verifyQuote(signedQuote, requestHash, paymentInfo);
+    }
+
+    // Step 4: Create USDC authorization (EIP-3009), bound to this request
     const authorization = this.createUsdcAuthorization(
       paymentInfo.payTo,
-      BigInt(paymentInfo.maxAmountRequired)
+      BigInt(paymentInfo.maxAmountRequired),
+      requestHash
     );
 
-    // Step 4: Sign USDC authorization
-    const usdcSignature = await this.signUsdcAuthorization(authorization);
+    // Step 5: Sign USDC authorization
+    const usdcSignature = await this.signUsdcAuthorization(authorization, paymentInfo);
 
-    // Step 5: Create x402 payment header
+    // Step 6: Create x402 payment header
     const paymentHeader = this.createPaymentHeader(authorization, usdcSignature, paymentInfo);
 
-    // Step 6: Retry with payment
+    // Step 7: Retry with payment, redeeming the quote so the price can't move
     const paidResponse = await fetch(`${this.config.apiUrl}/meta/relay`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "X-Payment": paymentHeader,
       },
-      body: JSON.stringify({ request, signature }),
+      body: JSON.stringify({ request, signature, quoteId: signedQuote?.quoteId }),
     });
 
     if (!paidResponse.ok) {
@@ -230,16 +340,66 @@ export class GasStationClient {
       throw new Error(error.message || error.error || "Unknown error");
     }
 
-    return (await paidResponse.json()) as RelayResult;
+    const result = (await paidResponse.json()) as RelayResult;
+    const settlement = this.parsePaymentResponse(paidResponse.headers.get("X-PAYMENT-RESPONSE"));
+    return settlement ? { ...result, settlement } : result;
+  }
+
+  /**
+   * Verify a signed quote offline: signed by the server's quote signer,
+   * for this request, unexpired, and priced as the payment requirements say
+   */
+  private async verifyQuote(
+    quote: SignedQuote,
+    requestHash: string,
+    paymentInfo: PaymentRequirements
+  ): Promise<void> {
+    const { quote: quoteInfo } = await this.getMetaDomain();
+    if (!quoteInfo) return; // Server predates signed quotes
+
+    const signer = ethers.verifyTypedData(quoteInfo.domain, quoteInfo.types, {
+      quoteId: quote.quoteId,
+      requestHash: quote.requestHash,
+      price: BigInt(quote.price),
+      gas: BigInt(quote.gas),
+      gasPrice: BigInt(quote.gasPrice),
+      priority: quote.priority,
+      validUntil: BigInt(quote.validUntil),
+    }, quote.signature);
+
+    if (signer.toLowerCase() !== quoteInfo.signer.toLowerCase()) {
+      throw new Error("Quote was not signed by the gas station");
+    }
+    if (quote.requestHash.toLowerCase() !== requestHash.toLowerCase()) {
+      throw new Error("Quote is for a different request");
+    }
+    if (quote.validUntil < Math.floor(Date.now() / 1000)) {
+      throw new Error("Quote expired");
+    }
+    if (BigInt(quote.price) !== BigInt(paymentInfo.maxAmountRequired)) {
+      throw new Error("Payment requirements do not match the quoted price");
+    }
+  }
+
+  /**
+   * Decode the base64 X-PAYMENT-RESPONSE settlement header
+   */
+  private parsePaymentResponse(header: string | null): PaymentSettlement | undefined {
+    if (!header) return undefined;
+    try {
+      return JSON.parse(Buffer.from(header, "base64").toString("utf-8")) as PaymentSettlement;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
    * Create EIP-3009 USDC transfer authorization
+   * The nonce is the hash of the request being paid for
    */
-  private createUsdcAuthorization(to: string, value: bigint) {
+  private createUsdcAuthorization(to: string, value: bigint, nonce: string) {
     const validAfter = Math.floor(Date.now() / 1000) - 60;
     const validBefore = Math.floor(Date.now() / 1000) + 3600;
-    const nonce = ethers.hexlify(ethers.randomBytes(32));
 
     return {
       from: this.config.wallet.address,
@@ -253,24 +413,30 @@ export class GasStationClient {
 
   /**
    * Sign USDC authorization using EIP-712
+   * Domain and message type follow the server's payment requirements
+   * (ReceiveWithAuthorization when it settles in front-run safe mode)
    */
-  private async signUsdcAuthorization(authorization: {
-    from: string;
-    to: string;
-    value: string;
-    validAfter: string;
-    validBefore: string;
-    nonce: string;
-  }): Promise<string> {
+  private async signUsdcAuthorization(
+    authorization: {
+      from: string;
+      to: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    },
+    paymentInfo: PaymentRequirements
+  ): Promise<string> {
     const domain = {
-      name: "Test USDC",
-      version: "1",
+      name: paymentInfo.extra?.name ?? "Test USDC",
+      version: paymentInfo.extra?.version ?? "1",
       chainId: this.config.chainId,
       verifyingContract: this.config.usdcAddress,
     };
 
+    const primaryType = paymentInfo.extra?.primaryType ?? "TransferWithAuthorization";
     const types = {
-      TransferWithAuthorization: [
+      [primaryType]: [
         { name: "from", type: "address" },
         { name: "to", type: "address" },
         { name: "value", type: "uint256" },
@@ -305,11 +471,11 @@ export class GasStationClient {
       nonce: string;
     },
     signature: string,
-    paymentInfo: { network: string }
+    paymentInfo: { scheme: string; network: string }
   ): string {
     const payment = {
       version: 1,
-      scheme: "exact",
+      scheme: paymentInfo.scheme,
       network: paymentInfo.network,
       payload: { signature, authorization },
     };
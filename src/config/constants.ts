@@ -43,6 +43,7 @@ export const PRICING = {
   DEFAULT_MARKUP: 1.2, // 20% markup
   MIN_PRICE_USDC: 0.01,
   MAX_PRICE_USDC: 10.0,
+  BATCH_DISCOUNT_BPS: 1000n, // 10% off batches
   QUOTE_VALIDITY_SECONDS: 60,
 } as const;
 
@@ -50,7 +51,9 @@ export const PRICING = {
 export const X402 = {
   VERSION: 1,
   SCHEME: "exact",
+  SCHEME_UPTO: "upto", // Authorize a maximum, charged for gas actually used
   NETWORK_PREFIX: "eip155",
+  PAYMENT_RESPONSE_HEADER: "X-PAYMENT-RESPONSE",
 } as const;
 
 // ERC20 ABI (minimal for transfers)
@@ -1,34 +1,128 @@
 import { z } from "zod";
 import dotenv from "dotenv";
+import { REFUND_RULE_PATTERN } from "../utils/refund-policy.js";
+import { RELAYER_STRATEGIES } from "../utils/relayer-strategies.js";
 
 dotenv.config();
 
+// "start:full:max" surge curve, e.g. "0.75:2:2"
+const surgeCurve = (fallback: string) =>
+  z.string().default(fallback)
+    .transform((v) => {
+      const [start, full, max] = v.split(":").map((n) => Number(n.trim()));
+      return { start, full, max };
+    })
+    .pipe(z.object({ start: z.number().min(0), full: z.number().min(0), max: z.number().min(1) }));
+
 const envSchema = z.object({
   // Network
   CRONOS_RPC_URL: z.string().url().default("https://evm-t3.cronos.org/"),
   CHAIN_ID: z.coerce.number().default(338),
 
   // Relayer Wallet
-  RELAYER_PRIVATE_KEY: z.string().startsWith("0x"),
+  RELAYER_PRIVATE_KEY: z.string().startsWith("0x").optional(),
+  // Derive the pool from a mnemonic instead of RELAYER_PRIVATE_KEY(S):
+  // RELAYER_COUNT wallets at RELAYER_DERIVATION_PATH/0, /1, ... (/0 is the primary)
+  RELAYER_MNEMONIC: z.string().optional(),
+  RELAYER_COUNT: z.coerce.number().int().min(1).max(100).default(1),
+  RELAYER_DERIVATION_PATH: z.string().regex(/^m(\/\d+'?)*$/).default("m/44'/60'/0'/0"),
+  // Transactions one relayer may have in flight at once. They are sent with consecutive
+  // nonces, so one that stalls holds up those behind it until it is bumped.
+  RELAYER_MAX_IN_FLIGHT: z.coerce.number().int().min(1).max(64).default(4),
+  // Which active relayer gets the next transaction (see utils/relayer-strategies.ts)
+  RELAYER_STRATEGY: z.enum(RELAYER_STRATEGIES).default("least_busy"),
+  // Take a relayer out of rotation below RELAYER_MIN_CRO, or for RELAYER_QUARANTINE_MS
+  // after RELAYER_MAX_FAILURES failed relays in a row
+  RELAYER_MIN_CRO: z.coerce.number().min(0).default(1),
+  RELAYER_MAX_FAILURES: z.coerce.number().int().min(1).default(3),
+  RELAYER_QUARANTINE_MS: z.coerce.number().positive().default(300000),
+  // Wallet that tops relayers up to TREASURY_TARGET_CRO once they fall below TREASURY_TOPUP_BELOW_CRO
+  TREASURY_PRIVATE_KEY: z.string().startsWith("0x").optional(),
+  TREASURY_TOPUP_BELOW_CRO: z.coerce.number().min(0).default(10),
+  TREASURY_TARGET_CRO: z.coerce.number().positive().default(50),
 
   // Tokens
   USDC_ADDRESS: z.string().startsWith("0x"),
+  USDC_EIP712_NAME: z.string().optional(), // Defaults to the token's name()
+  USDC_EIP712_VERSION: z.string().default("1"),
   WCRO_ADDRESS: z.string().startsWith("0x").default("0x6a3173618859C7cd40fAF6921b5E9eB6A76f1fD4"),
 
   // Forwarder
   FORWARDER_ADDRESS: z.string().startsWith("0x"),
 
   // x402
-  X402_FACILITATOR_URL: z.string().url().optional(),
+  X402_FACILITATOR_URL: z.string().url().optional(), // Delegate verify/settle to this facilitator
+  X402_FACILITATOR_AUTH_TOKEN: z.string().optional(),
+  X402_FACILITATOR_TIMEOUT_MS: z.coerce.number().positive().default(30000),
+  FACILITATOR_AUTH_TOKEN: z.string().min(16).optional(), // Bearer token for /x402/* (disabled when unset)
+  // payTo addresses /x402/verify|settle accept; defaults to RECEIVING_WALLET and our own payee
+  FACILITATOR_PAY_TO_ALLOWLIST: z.string().optional()
+    .transform((v) => v?.split(",").map((a) => a.trim()).filter(Boolean))
+    .transform((list) => (list?.length ? list : undefined))
+    .pipe(z.array(z.string().regex(/^0x[0-9a-fA-F]{40}$/)).optional()),
+  ADMIN_API_KEY: z.string().min(16).optional(), // Bearer token for /admin (disabled when unset)
   RECEIVING_WALLET: z.string().startsWith("0x"),
+  // "transfer": transferWithAuthorization to RECEIVING_WALLET
+  // "receive": receiveWithAuthorization to the relayer, then forwarded (front-run safe)
+  // "atomic": payment and meta-transaction in one tx through the Settlement contract
+  PAYMENT_SETTLEMENT_MODE: z.enum(["transfer", "receive", "atomic"]).default("transfer"),
+  SETTLEMENT_ADDRESS: z.string().startsWith("0x").optional(),
+  // Revert (and so not charge) when the inner call fails in atomic mode
+  SETTLEMENT_REQUIRE_SUCCESS: z.enum(["true", "false"]).default("true").transform((v) => v === "true"),
+
+  // Refunds when a paid relay fails (full | partial:NN | keep_fee)
+  REFUND_WALLET_PRIVATE_KEY: z.string().startsWith("0x").optional(), // Key for RECEIVING_WALLET
+  REFUND_RULE_FORWARDER_REVERT: z.string().regex(REFUND_RULE_PATTERN).default("full"),
+  REFUND_RULE_INNER_CALL_REVERT: z.string().regex(REFUND_RULE_PATTERN).default("keep_fee"),
+  REFUND_RULE_DEADLINE_EXPIRED: z.string().regex(REFUND_RULE_PATTERN).default("full"),
+  REFUND_RULE_BATCH_ITEM_FAILED: z.string().regex(REFUND_RULE_PATTERN).default("full"),
+  // Refunds still owed (not yet confirmed) are kept here across restarts
+  REFUND_LEDGER_PATH: z.string().default("data/refunds-owed.json"),
+  // "receive" mode payments not yet forwarded to RECEIVING_WALLET are kept here across restarts
+  FORWARD_LEDGER_PATH: z.string().default("data/forwards-pending.json"),
+
+  // eth_call of forwarder.execute before quoting or taking payment: "reject" requests
+  // that would fail, "warn" (quote and relay them anyway) or "off"
+  SIMULATION_POLICY: z.enum(["reject", "warn", "off"]).default("reject"),
+  // Attach a transaction preview (call tree, token events, CRO deltas) to /meta/relay 402 quotes
+  PREVIEW_IN_QUOTES: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
 
   // Pricing
   MARKUP_PERCENTAGE: z.coerce.number().min(0).max(100).default(20),
   MIN_PRICE_USDC: z.coerce.number().positive().default(0.01),
+  QUOTE_SIGNER_PRIVATE_KEY: z.string().startsWith("0x").optional(), // Defaults to the relayer key
+  // CRO value in ForwardRequests: "charge" at the oracle rate, "cap" (free up to the max) or "reject"
+  VALUE_POLICY: z.enum(["charge", "cap", "reject"]).default("charge"),
+  MAX_VALUE_CRO: z.coerce.number().min(0).default(10), // Per request (or batch)
+  // "fee_history": tier tips from eth_feeHistory percentiles; "multiplier": fixed multipliers
+  GAS_PRICE_STRATEGY: z.enum(["fee_history", "multiplier"]).default("fee_history"),
+  FEE_HISTORY_BLOCKS: z.coerce.number().int().min(1).max(1024).default(20),
+  // Reward percentiles for slow,normal,fast
+  FEE_HISTORY_PERCENTILES: z.string().default("10,50,90")
+    .transform((v) => v.split(",").map((p) => Number(p.trim())))
+    .pipe(z.array(z.number().min(0).max(100)).length(3))
+    .refine((p) => p[0] <= p[1] && p[1] <= p[2], "Percentiles must be ascending"),
+
+  // Surge pricing: markup multiplier from pool saturation, CRO reserve and failure rate
+  SURGE_ENABLED: z.enum(["true", "false"]).default("true").transform((v) => v === "true"),
+  SURGE_SATURATION_CURVE: surgeCurve("0.75:2:2"), // (in flight + queued) / active relayer capacity
+  SURGE_RESERVE_CURVE: surgeCurve("50:10:2"),     // Total pool CRO, falling
+  SURGE_FAILURE_CURVE: surgeCurve("0.05:0.25:1.5"), // Failed share of recent relays
+  SURGE_MAX_MULTIPLIER: z.coerce.number().min(1).default(3),
+
+  // CRO/USD oracle: median of the listed sources (cryptocom | vvs | coingecko)
+  ORACLE_SOURCES: z.string().default("cryptocom,vvs,coingecko")
+    .transform((v) => v.split(",").map((s) => s.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(["cryptocom", "vvs", "coingecko"]))),
+  ORACLE_MANUAL_CRO_PRICE: z.coerce.number().positive().optional(), // Overrides the sources while set
+  ORACLE_REFRESH_INTERVAL_MS: z.coerce.number().positive().default(60000),
+  ORACLE_MAX_AGE_SECONDS: z.coerce.number().positive().default(300), // Refuse to quote on older prices
+  ORACLE_MAX_DEVIATION_PERCENT: z.coerce.number().positive().default(5), // Circuit breaker
+  ORACLE_MIN_SOURCES: z.coerce.number().int().min(1).default(1),
 
   // API Keys
   CRONOS_EXPLORER_API_KEY: z.string().optional(),
-  CRYPTO_COM_API_KEY: z.string().optional(),
+  CRYPTO_COM_API_KEY: z.string().optional(), // Unused: the oracle's Crypto.com ticker is public
 
   // Server
   PORT: z.coerce.number().default(3000),
@@ -36,7 +130,19 @@ const envSchema = z.object({
 
   // Redis
   REDIS_URL: z.string().url().optional(),
-});
+}).refine(
+  (e) => e.RELAYER_PRIVATE_KEY || e.RELAYER_MNEMONIC,
+  { message: "RELAYER_PRIVATE_KEY is required unless RELAYER_MNEMONIC is set", path: ["RELAYER_PRIVATE_KEY"] }
+).refine(
+  (e) => e.PAYMENT_SETTLEMENT_MODE !== "atomic" || e.SETTLEMENT_ADDRESS,
+  { message: "SETTLEMENT_ADDRESS is required when PAYMENT_SETTLEMENT_MODE=atomic", path: ["SETTLEMENT_ADDRESS"] }
+).refine(
+  (e) => e.TREASURY_TARGET_CRO > e.TREASURY_TOPUP_BELOW_CRO,
+  { message: "TREASURY_TARGET_CRO must be above TREASURY_TOPUP_BELOW_CRO", path: ["TREASURY_TARGET_CRO"] }
+).refine(
+  (e) => e.ORACLE_SOURCES.length > 0 || e.ORACLE_MANUAL_CRO_PRICE,
+  { message: "ORACLE_SOURCES can only be empty when ORACLE_MANUAL_CRO_PRICE is set", path: ["ORACLE_SOURCES"] }
+);
 
 export type Env = z.infer<typeof envSchema>;
 
@@ -4,6 +4,7 @@ import helmet from "helmet";
 import path from "path";
 import { fileURLToPath } from "url";
 import { env } from "./config/env.js";
+import { X402 } from "./config/constants.js";
 import { logger } from "./utils/logger.js";
 import routes from "./api/routes.js";
 import { generalLimiter, relayLimiter, estimateLimiter } from "./middleware/rateLimit.middleware.js";
@@ -11,6 +12,10 @@ import { errorMiddleware } from "./middleware/error.middleware.js";
 import { walletService } from "./services/wallet.service.js";
 import { rebalanceService } from "./services/rebalance.service.js";
 import { relayerPool } from "./services/relayer-pool.service.js";
+import { settlementService } from "./services/settlement.service.js";
+import { nonceService } from "./services/nonce.service.js";
+import { paymentService } from "./services/payment.service.js";
+import { refundService } from "./services/refund.service.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -21,7 +26,9 @@ const app = express();
 app.use(helmet({
   contentSecurityPolicy: false,
 }));
-app.use(cors());
+app.use(cors({
+  exposedHeaders: [X402.PAYMENT_RESPONSE_HEADER],
+}));
 
 // Body parsing
 app.use(express.json());
@@ -41,6 +48,7 @@ app.use((req, res, next) => {
 
 // Rate limiting
 app.use("/relay", relayLimiter);
+app.use("/x402/settle", relayLimiter);
 app.use("/estimate", estimateLimiter);
 app.use(generalLimiter);
 
@@ -63,6 +71,11 @@ async function start() {
       addresses: relayerPool.getAddresses(),
     });
 
+    // Atomic settlement only works for relayers the contract allows
+    if (settlementService.isEnabled) {
+      await settlementService.checkRelayers(relayerPool.getAddresses());
+    }
+
     // Log startup info
     logger.info("Starting Agent Gas Station...", {
       network: env.CHAIN_ID === 25 ? "Cronos Mainnet" : "Cronos Testnet",
@@ -85,6 +98,18 @@ async function start() {
     // Start auto-rebalance service (swaps USDC → CRO when low)
     rebalanceService.start();
 
+    // Fill nonce gaps that would hold up relayer transactions
+    nonceService.start();
+
+    // Quarantine unhealthy relayers and top them up from the treasury
+    relayerPool.startHealthChecks();
+
+    // Retry "receive" mode payments that didn't reach RECEIVING_WALLET
+    paymentService.startForwardRetries();
+
+    // Resend refunds that are owed but not confirmed
+    refundService.startRetries();
+
     // Start HTTP server
     app.listen(env.PORT, () => {
       logger.info(`🚀 Agent Gas Station running on port ${env.PORT}`);
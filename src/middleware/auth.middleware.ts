@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Require `Authorization: Bearer <token>` when a token is configured.
+ * With no token configured the route stays open.
+ */
+export function bearerAuth(token: string | undefined) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!token) {
+      next();
+      return;
+    }
+
+    const header = req.headers.authorization ?? "";
+    const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+    const expected = Buffer.from(token);
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      logger.warn("Unauthorized request", { path: req.path, ip: req.ip });
+      res.status(401).json({
+        error: "UNAUTHORIZED",
+        message: "Missing or invalid bearer token",
+      });
+      return;
+    }
+
+    next();
+  };
+}
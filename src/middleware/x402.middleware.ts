@@ -1,78 +1,29 @@
 import { Request, Response, NextFunction } from "express";
 import { logger } from "../utils/logger.js";
-import { env } from "../config/env.js";
-
-// x402 Payment header structure
-interface X402Payment {
-  version: number;
-  scheme: string;
-  network: string;
-  payload: {
-    signature: string;
-    authorization: {
-      from: string;
-      to: string;
-      value: string;
-      validAfter: string;
-      validBefore: string;
-      nonce: string;
-    };
-  };
-}
+import { paymentService, X402Payment } from "../services/payment.service.js";
 
 export function parseX402Header(header: string): X402Payment | null {
-  try {
-    // x402 header is base64 encoded JSON
-    const decoded = Buffer.from(header, "base64").toString("utf-8");
-    return JSON.parse(decoded) as X402Payment;
-  } catch (error) {
-    logger.warn("Failed to parse x402 header", { error });
-    return null;
-  }
+  return paymentService.parsePaymentHeader(header);
 }
 
 export async function verifyX402Payment(
   payment: X402Payment,
   expectedAmount: bigint
 ): Promise<boolean> {
-  // TODO: Implement full x402 verification
-  // 1. Verify the signature matches the authorization
-  // 2. Verify the amount is >= expectedAmount
-  // 3. Verify the payTo address matches our receiving wallet
-  // 4. Verify the network matches our chain
-  // 5. Check nonce hasn't been used (via EIP-3009)
-
   logger.debug("Verifying x402 payment", {
     from: payment.payload.authorization.from,
     to: payment.payload.authorization.to,
     value: payment.payload.authorization.value,
   });
 
-  // For MVP, we do basic validation
-  const auth = payment.payload.authorization;
-
-  // Check recipient
-  if (auth.to.toLowerCase() !== env.RECEIVING_WALLET.toLowerCase()) {
-    logger.warn("Payment to wrong address", {
-      expected: env.RECEIVING_WALLET,
-      received: auth.to,
-    });
-    return false;
-  }
-
-  // Check amount
-  const paymentAmount = BigInt(auth.value);
-  if (paymentAmount < expectedAmount) {
-    logger.warn("Insufficient payment", {
-      expected: expectedAmount.toString(),
-      received: auth.value,
-    });
-    return false;
+  // Network, recipient, amount, timing, EIP-712 signer, nonce state and balance
+  const requirements = await paymentService.getPaymentRequirements(expectedAmount, "x402 payment");
+  const verification = await paymentService.verifyPayment(payment, requirements);
+  if (!verification.valid) {
+    logger.warn("x402 payment rejected", { reason: verification.reason });
   }
 
-  // TODO: Verify signature and execute transferWithAuthorization on-chain
-
-  return true;
+  return verification.valid;
 }
 
 export function x402Middleware(expectedAmountGetter: (req: Request) => Promise<bigint>) {
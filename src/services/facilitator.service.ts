@@ -0,0 +1,133 @@
+/**
+ * Remote x402 Facilitator Client
+ *
+ * When X402_FACILITATOR_URL is set, payment verification and settlement are
+ * delegated to that facilitator instead of being done by our relayer wallet.
+ */
+
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import type {
+  PaymentSettlement,
+  PaymentVerification,
+  X402Payment,
+  X402PaymentRequirements,
+} from "./payment.service.js";
+
+interface FacilitatorVerifyResponse {
+  isValid: boolean;
+  invalidReason?: string | null;
+  payer?: string;
+}
+
+interface FacilitatorSettleResponse {
+  success: boolean;
+  errorReason?: string | null;
+  transaction?: string;
+  txHash?: string;     // x402 v1 field name
+  network?: string;
+  networkId?: string;  // x402 v1 field name
+  payer?: string;
+}
+
+export class FacilitatorService {
+  constructor(
+    private baseUrl: string,
+    private authToken?: string,
+    private timeoutMs: number = 30000
+  ) {}
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * POST /verify - ask the facilitator whether the payment satisfies the requirements
+   */
+  async verify(
+    payment: X402Payment,
+    requirements: X402PaymentRequirements
+  ): Promise<PaymentVerification> {
+    const response = await this.post<FacilitatorVerifyResponse>(
+      "/verify",
+      this.buildBody(payment, requirements)
+    );
+
+    return {
+      valid: response.isValid === true,
+      reason: response.invalidReason ?? undefined,
+      payer: response.payer ?? payment.payload.authorization.from,
+    };
+  }
+
+  /**
+   * POST /settle - have the facilitator submit the payment on-chain
+   */
+  async settle(
+    payment: X402Payment,
+    requirements: X402PaymentRequirements
+  ): Promise<PaymentSettlement> {
+    const response = await this.post<FacilitatorSettleResponse>(
+      "/settle",
+      this.buildBody(payment, requirements)
+    );
+
+    const transaction = response.transaction ?? response.txHash ?? "";
+    if (!response.success || !transaction) {
+      throw new Error(`Facilitator settlement failed: ${response.errorReason ?? "unknown reason"}`);
+    }
+
+    return {
+      success: true,
+      transaction,
+      network: response.network ?? response.networkId ?? requirements.network,
+      payer: response.payer ?? payment.payload.authorization.from,
+    };
+  }
+
+  private buildBody(payment: X402Payment, requirements: X402PaymentRequirements) {
+    return {
+      x402Version: payment.version,
+      paymentPayload: {
+        x402Version: payment.version,
+        scheme: payment.scheme,
+        network: payment.network,
+        payload: payment.payload,
+      },
+      paymentHeader: Buffer.from(JSON.stringify(payment)).toString("base64"),
+      paymentRequirements: requirements,
+    };
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const url = this.baseUrl.replace(/\/+$/, "") + path;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`;
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      logger.warn("Facilitator request failed", { url, status: response.status, body: text });
+      throw new Error(`Facilitator ${path} returned ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+// Singleton (null when payments are verified and settled locally)
+export const facilitatorService = env.X402_FACILITATOR_URL
+  ? new FacilitatorService(
+      env.X402_FACILITATOR_URL,
+      env.X402_FACILITATOR_AUTH_TOKEN,
+      env.X402_FACILITATOR_TIMEOUT_MS
+    )
+  : null;
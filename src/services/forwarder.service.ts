@@ -1,9 +1,30 @@
-import { ethers, Contract } from "ethers";
+import { ethers, Contract, Interface, concat, isError, toQuantity, type CallExceptionError } from "ethers";
 import { env } from "../config/env.js";
 import { logger } from "../utils/logger.js";
 import { walletService } from "./wallet.service.js";
 import { relayerPool } from "./relayer-pool.service.js";
+import { inclusionService } from "./inclusion.service.js";
+import type { Priority } from "./pricing.service.js";
+import {
+  FORWARD_REQUEST_TYPES,
+  hashForwardRequest,
+  hashForwardRequestBatch,
+} from "../utils/payment-binding.js";
+import { outerGasFloor, outerGasLimit, recommendForwardGas } from "../utils/gas-math.js";
+import { COMMON_ERRORS, DecodedRevert, decodeRevert } from "../utils/revert.js";
+import { GasStationError } from "../utils/errors.js";
 import ForwarderABI from "../config/Forwarder.abi.json" with { type: "json" };
+import SettlementABI from "../config/Settlement.abi.json" with { type: "json" };
+import SimulationForwarder from "../config/SimulationForwarder.json" with { type: "json" };
+
+// Well-formed but unchecked: the simulation forwarder does not enforce signatures
+export const SIMULATION_SIGNATURE = "0x" + "11".repeat(64) + "1b";
+
+// Custom errors decodeRevert can name
+export const KNOWN_ERRORS = new Interface([
+  ...SettlementABI.filter((fragment) => fragment.type === "error"),
+  ...COMMON_ERRORS,
+]);
 
 export interface ForwardRequest {
   from: string;
@@ -20,6 +41,34 @@ export interface MetaTransaction {
   signature: string;
 }
 
+export interface ForwardGasEstimate {
+  gas: bigint;       // Recommended ForwardRequest.gas (the inner call's limit)
+  outerGas: bigint;  // Gas limit of the relayer's execute transaction
+  innerTxEstimate: bigint;
+  // "state_override": execute() simulated with the signature check swapped out;
+  // "floor": the node does not support state overrides, outerGas is computed
+  method: "state_override" | "floor";
+}
+
+export interface SimulationResult {
+  success: boolean;
+  // "forwarder": execute() itself reverts (nonce, deadline, signature);
+  // "inner": execute() succeeds but the target call fails
+  stage?: "forwarder" | "inner";
+  revert?: DecodedRevert;
+}
+
+export interface ExecuteResult {
+  txHash: string;
+  success: boolean;
+  result: string;
+  relayer: string;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  inclusionMs: number;
+  bumps: number;
+}
+
 export class ForwarderService {
   private forwarderContract: Contract;
 
@@ -62,16 +111,46 @@ export class ForwarderService {
     }
   }
 
+  /**
+   * Run execute() with eth_call as the relayer would send it, so a failing
+   * request is caught before any payment. The inner call's outcome comes
+   * back as execute()'s (success, result) return value.
+   */
+  async simulate(request: ForwardRequest, signature: string): Promise<SimulationResult> {
+    const reqTuple = [
+      request.from,
+      request.to,
+      BigInt(request.value),
+      BigInt(request.gas),
+      BigInt(request.nonce),
+      BigInt(request.deadline),
+      request.data,
+    ];
+
+    try {
+      const [success, result] = await this.forwarderContract.execute.staticCall(reqTuple, signature, {
+        value: BigInt(request.value),
+      });
+      if (success) return { success: true };
+      return { success: false, stage: "inner", revert: decodeRevert(result, KNOWN_ERRORS) };
+    } catch (error) {
+      if (!isRevert(error)) throw error;
+      return { success: false, stage: "forwarder", revert: decodeRevert(error.data, KNOWN_ERRORS) };
+    }
+  }
+
   /**
    * Execute a meta-transaction through the forwarder
-   * Uses relayer pool for horizontal scaling
+   * Uses relayer pool for horizontal scaling. Priority sets the queue order,
+   * the tip and the fee bump policy.
    */
   async execute(
     request: ForwardRequest,
-    signature: string
-  ): Promise<{ txHash: string; success: boolean; result: string; relayer: string }> {
-    // Get next available relayer from pool
-    const relayerState = relayerPool.getRelayer();
+    signature: string,
+    priority: Priority = "normal"
+  ): Promise<ExecuteResult> {
+    // Wait for a free relayer (higher priorities are served first)
+    const relayerState = await relayerPool.acquireRelayer(priority, request.from);
 
     logger.info("Executing meta-transaction", {
       from: request.from,
@@ -105,18 +184,18 @@ export class ForwarderService {
         { value: BigInt(request.value) }
       );
 
-      // Execute with 20% buffer (let ethers handle nonce automatically)
-      const tx = await forwarderWithRelayer.execute(reqTuple, signature, {
+      // Execute with 20% buffer (and room for the inner call's full gas)
+      // at the tier's fees, bumping if it stalls and cancelling past the deadline
+      const tx = await forwarderWithRelayer.execute.populateTransaction(reqTuple, signature, {
         value: BigInt(request.value),
-        gasLimit: (gasEstimate * 120n) / 100n,
       });
-
-      logger.info("Meta-transaction sent", {
-        txHash: tx.hash,
-        relayer: relayerState.address,
-      });
-
-      const receipt = await tx.wait();
+      tx.gasLimit = outerGasLimit(gasEstimate, tx.data!, BigInt(request.gas));
+      const { receipt, inclusionMs, bumps } = await inclusionService.send(
+        relayerState.wallet,
+        tx,
+        priority,
+        Number(request.deadline)
+      );
 
       // Mark relayer as available
       relayerPool.markComplete(relayerState);
@@ -154,6 +233,10 @@ export class ForwarderService {
         success,
         result,
         relayer: relayerState.address,
+        gasUsed: receipt.gasUsed,
+        effectiveGasPrice: receipt.gasPrice,
+        inclusionMs,
+        bumps,
       };
     } catch (error) {
       // On error, mark complete
@@ -162,6 +245,65 @@ export class ForwarderService {
     }
   }
 
+  /**
+   * Gas for an unsigned request: measure the inner call as the forwarder
+   * would make it (msg.sender = forwarder, sender appended per EIP-2771),
+   * then simulate execute() with a state override that swaps in a forwarder
+   * which does not enforce the signature. Nonce and deadline still apply.
+   * Throws ESTIMATION_FAILED (400) if either step reverts.
+   */
+  async estimate(request: Omit<ForwardRequest, "gas">): Promise<ForwardGasEstimate> {
+    const provider = walletService.rpcProvider;
+    const value = BigInt(request.value);
+    const innerData = concat([request.data, request.from]);
+
+    // 1. The inner call on its own (the forwarder needs the value it passes on)
+    let innerTxEstimate: bigint;
+    try {
+      const innerTx = { from: env.FORWARDER_ADDRESS, to: request.to, data: innerData, value: toQuantity(value) };
+      const params: unknown[] = [innerTx, "latest"];
+      if (value > 0n) {
+        params.push({ [env.FORWARDER_ADDRESS]: { balance: toQuantity(value) } });
+      }
+      innerTxEstimate = BigInt(await provider.send("eth_estimateGas", params));
+    } catch (error) {
+      if (!isRevert(error)) throw error;
+      throw new GasStationError("Inner call reverts", "ESTIMATION_FAILED", 400, {
+        revert: decodeRevert(error.data, KNOWN_ERRORS),
+      });
+    }
+    const gas = recommendForwardGas(innerTxEstimate, innerData);
+
+    // 2. The relayer's execute() transaction with that gas
+    const executeData = this.forwarderContract.interface.encodeFunctionData("execute", [
+      [request.from, request.to, value, gas, BigInt(request.nonce), BigInt(request.deadline), request.data],
+      SIMULATION_SIGNATURE,
+    ]);
+    try {
+      const outerEstimate = BigInt(await provider.send("eth_estimateGas", [
+        { from: walletService.address, to: env.FORWARDER_ADDRESS, data: executeData, value: toQuantity(value) },
+        "latest",
+        { [env.FORWARDER_ADDRESS]: { code: SimulationForwarder.deployedBytecode } },
+      ]));
+      return {
+        gas,
+        outerGas: outerGasLimit(outerEstimate, executeData, gas),
+        innerTxEstimate,
+        method: "state_override",
+      };
+    } catch (error) {
+      if (isRevert(error)) {
+        throw new GasStationError("Forwarder rejects the request (check nonce and deadline)", "ESTIMATION_FAILED", 400, {
+          revert: decodeRevert(error.data, KNOWN_ERRORS),
+        });
+      }
+      logger.debug("State override estimate unavailable, using the gas floor", {
+        error: error instanceof Error ? error.message : error,
+      });
+      return { gas, outerGas: outerGasFloor(executeData, gas), innerTxEstimate, method: "floor" };
+    }
+  }
+
   /**
    * Get the EIP-712 domain for signing
    */
@@ -178,18 +320,33 @@ export class ForwarderService {
    * Get the EIP-712 types for ForwardRequest
    */
   getTypes() {
-    return {
-      ForwardRequest: [
-        { name: "from", type: "address" },
-        { name: "to", type: "address" },
-        { name: "value", type: "uint256" },
-        { name: "gas", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" },
-        { name: "data", type: "bytes" },
-      ],
-    };
+    return FORWARD_REQUEST_TYPES;
   }
+
+  /**
+   * EIP-712 hash of a request; x402 payments must use it as their nonce
+   */
+  hashRequest(request: ForwardRequest): string {
+    return hashForwardRequest(this.getDomain(), request);
+  }
+
+  /**
+   * Hash a paid batch binds to: keccak256(abi.encode(bytes32[] requestHashes))
+   */
+  hashBatch(requests: ForwardRequest[]): string {
+    return hashForwardRequestBatch(this.getDomain(), requests);
+  }
+}
+
+/**
+ * ethers reports every failed eth_estimateGas as CALL_EXCEPTION, including a
+ * node rejecting the state override parameter; only treat it as a revert
+ * when there is revert data or the node says so
+ */
+function isRevert(error: unknown): error is CallExceptionError {
+  if (!isError(error, "CALL_EXCEPTION")) return false;
+  const info = error.info as { error?: { message?: string } } | undefined;
+  return error.data != null || /revert/i.test(info?.error?.message ?? "");
 }
 
 // Singleton
@@ -0,0 +1,113 @@
+/**
+ * Gas Oracle Service
+ *
+ * Derives the slow/normal/fast tips from eth_feeHistory: the reward
+ * percentiles in FEE_HISTORY_PERCENTILES over the last FEE_HISTORY_BLOCKS
+ * blocks. Pricing falls back to the fixed tier multipliers whenever this
+ * returns null (legacy network, RPC without eth_feeHistory, empty blocks).
+ */
+
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { tipsFromFeeHistory } from "../utils/fees.js";
+import { walletService } from "./wallet.service.js";
+
+const CACHE_TTL_MS = 15000; // About two Cronos blocks
+
+export interface FeeHistoryTips {
+  baseFee: bigint; // Base fee of the next block
+  tips: bigint[];  // One per FEE_HISTORY_PERCENTILES entry (slow, normal, fast)
+  oldestBlock: number;
+  blocks: number;
+  fetchedAt: Date;
+}
+
+interface FeeHistoryResponse {
+  oldestBlock: string;
+  baseFeePerGas?: string[];
+  reward?: string[][];
+}
+
+export class GasOracleService {
+  private cached: FeeHistoryTips | null = null;
+  private inflight: Promise<FeeHistoryTips | null> | null = null;
+  private lastError: string | null = null;
+  private failedAt = 0;
+
+  /**
+   * Tier tips from recent blocks, cached for CACHE_TTL_MS. Null when fee
+   * history is unavailable (also cached, so a node without eth_feeHistory
+   * is not asked on every quote).
+   */
+  async getTips(): Promise<FeeHistoryTips | null> {
+    if (this.cached && Date.now() - this.cached.fetchedAt.getTime() < CACHE_TTL_MS) {
+      return this.cached;
+    }
+    if (Date.now() - this.failedAt < CACHE_TTL_MS) {
+      return null;
+    }
+    // Concurrent quotes share one request
+    if (!this.inflight) {
+      this.inflight = this.fetch().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  getStatus() {
+    return {
+      strategy: env.GAS_PRICE_STRATEGY,
+      blocks: env.FEE_HISTORY_BLOCKS,
+      percentiles: env.FEE_HISTORY_PERCENTILES,
+      lastFetch: this.cached?.fetchedAt ?? null,
+      lastError: this.lastError,
+    };
+  }
+
+  private async fetch(): Promise<FeeHistoryTips | null> {
+    try {
+      const history: FeeHistoryResponse = await walletService.rpcProvider.send("eth_feeHistory", [
+        "0x" + env.FEE_HISTORY_BLOCKS.toString(16),
+        "latest",
+        env.FEE_HISTORY_PERCENTILES,
+      ]);
+
+      // baseFeePerGas has one extra entry: the next block's base fee
+      const baseFees = history.baseFeePerGas ?? [];
+      const nextBaseFee = baseFees.length > 0 ? BigInt(baseFees[baseFees.length - 1]) : 0n;
+      if (nextBaseFee === 0n) {
+        throw new Error("Network has no base fee");
+      }
+
+      const rewards = (history.reward ?? []).map((row) => row.map((r) => BigInt(r)));
+      const tips = tipsFromFeeHistory(rewards, env.FEE_HISTORY_PERCENTILES.length);
+      if (!tips) {
+        throw new Error("No rewards in fee history window");
+      }
+
+      this.failedAt = 0;
+      this.cached = {
+        baseFee: nextBaseFee,
+        tips,
+        oldestBlock: Number(history.oldestBlock),
+        blocks: rewards.length,
+        fetchedAt: new Date(),
+      };
+      this.lastError = null;
+      return this.cached;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.lastError === null) {
+        logger.warn("Fee history unavailable, using tier multipliers", { error: message });
+      }
+      this.lastError = message;
+      this.failedAt = Date.now();
+      this.cached = null;
+      return null;
+    }
+  }
+}
+
+// Singleton
+export const gasOracle = new GasOracleService();
@@ -0,0 +1,108 @@
+/**
+ * Inclusion Service
+ *
+ * Sends relayer transactions with the fees and bump policy of the priority
+ * the agent paid for, and records how long each tier takes to be mined.
+ * Speed-ups and cancellations are left to the pending transaction monitor.
+ */
+
+import { TransactionReceipt, TransactionRequest, Wallet } from "ethers";
+import { logger } from "../utils/logger.js";
+import { RelayNotExecutedError, RelayPendingError } from "../utils/errors.js";
+import { Eta, InclusionStats, InclusionTracker, estimateEta } from "../utils/inclusion-tracker.js";
+import { pricingService, Priority, PRIORITY_CONFIGS } from "./pricing.service.js";
+import { surgeService } from "./surge.service.js";
+import { RelayOutcome, relayerPool } from "./relayer-pool.service.js";
+import { nonceService } from "./nonce.service.js";
+import { txMonitor } from "./tx-monitor.service.js";
+
+export interface InclusionResult {
+  receipt: TransactionReceipt;
+  inclusionMs: number;
+  bumps: number;
+}
+
+export class InclusionService {
+  private tracker = new InclusionTracker<Priority>();
+
+  /**
+   * Send a transaction at the tier's fees and wait for it to be mined. The
+   * pending transaction monitor speeds it up past the tier's SLA and
+   * cancels it once `deadline` (unix seconds) passes. Throws if it reverted
+   * or was cancelled.
+   */
+  async send(
+    wallet: Wallet,
+    tx: TransactionRequest,
+    priority: Priority = "normal",
+    deadline?: number
+  ): Promise<InclusionResult> {
+    const { overrides } = await pricingService.getFeePlan(priority);
+
+    // Replacements reuse this nonce, so only the first send reserves one
+    const startedAt = Date.now();
+    const sent = await nonceService.send(wallet, (nonce) => wallet.sendTransaction({ ...tx, ...overrides, nonce }));
+    logger.info("Relay transaction sent", { txHash: sent.hash, priority, nonce: sent.nonce, type: overrides.type });
+
+    let result;
+    try {
+      result = await txMonitor.track(wallet, sent, tx, overrides, { priority, deadline });
+    } catch (error) {
+      // Stuck, nonce taken or the node stopped answering: it may still be mined
+      this.recordOutcome(wallet, "failed");
+      throw new RelayPendingError(error instanceof Error ? error.message : String(error), sent.hash);
+    }
+
+    const { receipt, record } = result;
+    if (record.status === "cancelled") {
+      this.recordOutcome(wallet, "failed");
+      throw new RelayNotExecutedError(`Transaction cancelled: ${record.reason} (${receipt.hash})`, sent.hash);
+    }
+
+    const inclusionMs = Date.now() - startedAt;
+    const bumps = record.transactions.filter((t) => t.kind === "speed_up").length;
+    this.tracker.record(priority, { inclusionMs, bumps });
+    logger.info("Relay transaction included", {
+      txHash: receipt.hash,
+      priority,
+      inclusionMs,
+      bumps,
+    });
+    this.recordOutcome(wallet, receipt.status === 1 ? "ok" : "reverted");
+    if (receipt.status !== 1) {
+      throw new RelayNotExecutedError(`Transaction reverted: ${receipt.hash}`, receipt.hash);
+    }
+    return { receipt, inclusionMs, bumps };
+  }
+
+  /**
+   * Observed inclusion time per tier
+   */
+  getStats(): Record<Priority, InclusionStats> {
+    return {
+      slow: this.tracker.getStats("slow"),
+      normal: this.tracker.getStats("normal"),
+      fast: this.tracker.getStats("fast"),
+    };
+  }
+
+  /**
+   * Expected time to inclusion for a tier, from recent relays
+   */
+  getEta(priority: Priority): Eta {
+    return estimateEta(this.tracker.getStats(priority), PRIORITY_CONFIGS[priority].estimatedTime);
+  }
+
+  /**
+   * Feed the outcome to surge pricing and the sending relayer's health.
+   * Only failures to get the transaction mined count against either; a
+   * revert comes from the agent's own call.
+   */
+  private recordOutcome(wallet: Wallet, outcome: RelayOutcome): void {
+    surgeService.recordOutcome(outcome !== "failed");
+    relayerPool.recordOutcome(wallet.address, outcome);
+  }
+}
+
+// Singleton
+export const inclusionService = new InclusionService();
@@ -1,72 +1,225 @@
-import { logger } from "../utils/logger.js";
-import { walletService } from "./wallet.service.js";
-
 /**
- * Nonce manager to handle concurrent transactions
- * Prevents nonce conflicts when multiple relays happen simultaneously
+ * Nonce Service
+ *
+ * One nonce manager per sending address. Every outgoing transaction
+ * (forwarder calls, settlements, payments, refunds, swaps, faucet mints)
+ * gets its nonce from here rather than from the node, so concurrent sends
+ * from the same key can't collide. Wallet objects with the same key share
+ * a manager.
+ *
+ * A reserved nonce that is never broadcast is handed out again, and if
+ * later transactions are already waiting on it, filled with a no-op. After
+ * a failed broadcast the manager resyncs with the chain's pending count.
+ * A periodic check fills any nonce the node is missing (say, a transaction
+ * it dropped) once it has been missing on two checks in a row.
  */
-export class NonceService {
-  private currentNonce: number | null = null;
-  private pendingNonces: Set<number> = new Set();
-  private lock: Promise<void> = Promise.resolve();
 
-  async initialize(): Promise<void> {
-    this.currentNonce = await walletService.rpcProvider.getTransactionCount(
-      walletService.address,
-      "pending"
-    );
-    logger.info("Nonce service initialized", { nonce: this.currentNonce });
+import { Wallet } from "ethers";
+import { logger } from "../utils/logger.js";
+import { NonceTracker } from "../utils/nonce-tracker.js";
+
+const GAP_CHECK_INTERVAL_MS = 15000;
+
+export class NonceManager {
+  private tracker = new NonceTracker();
+  private initializing: Promise<void> | null = null;
+  private suspectedGap: number | null = null;
+  private gapsFilled = 0;
+
+  constructor(private wallet: Wallet) {}
+
+  get address(): string {
+    return this.wallet.address;
   }
 
-  async getNextNonce(): Promise<number> {
-    // Wait for any pending nonce operations
-    await this.lock;
+  /**
+   * Send with a reserved nonce. The nonce is marked used if `send`
+   * returns, and handed back (with a resync) if it throws.
+   */
+  async send<T>(send: (nonce: number) => Promise<T>): Promise<T> {
+    const nonce = await this.reserve();
+    try {
+      const result = await send(nonce);
+      this.tracker.sent(nonce);
+      return result;
+    } catch (error) {
+      await this.failed(nonce, error);
+      throw error;
+    }
+  }
 
-    let resolveNext: () => void;
-    this.lock = new Promise((resolve) => {
-      resolveNext = resolve;
-    });
+  async reserve(): Promise<number> {
+    await this.ready();
+    return this.tracker.take();
+  }
 
+  /**
+   * Broadcast of `nonce` failed: release it, resync and fill any hole it
+   * leaves behind later transactions
+   */
+  async failed(nonce: number, error?: unknown): Promise<void> {
+    this.tracker.release(nonce);
+    logger.warn("Broadcast failed, resyncing nonce", {
+      address: this.address,
+      nonce,
+      error: error instanceof Error ? error.message : error,
+    });
     try {
-      // Refresh nonce from chain if we don't have one
-      if (this.currentNonce === null) {
-        await this.initialize();
+      await this.resync();
+    } catch (resyncError) {
+      logger.error("Nonce resync failed", { address: this.address, error: resyncError });
+    }
+    this.fillHoles().catch((fillError) => {
+      logger.error("Failed to fill nonce gap", { address: this.address, error: fillError });
+    });
+  }
+
+  async resync(): Promise<void> {
+    const chainNonce = await this.pendingCount();
+    this.tracker.resync(chainNonce);
+    logger.debug("Nonce resynced", { address: this.address, ...this.tracker.getStatus() });
+  }
+
+  /**
+   * Periodic check: fill the nonce the chain is missing if it is still
+   * missing on the next check (so a broadcast still propagating isn't
+   * replaced)
+   */
+  async checkGaps(): Promise<void> {
+    if (!this.tracker.initialized) return;
+
+    const chainNonce = await this.pendingCount();
+    this.tracker.resync(chainNonce);
+    const gap = this.tracker.gap(chainNonce);
+
+    if (gap !== null && gap === this.suspectedGap) {
+      this.suspectedGap = null;
+      if (this.tracker.claim(gap)) {
+        await this.sendNoop(gap);
       }
+      return;
+    }
+    this.suspectedGap = gap;
+  }
 
-      // Get the next available nonce
-      let nonce = this.currentNonce!;
+  getStatus() {
+    return {
+      address: this.address,
+      ...this.tracker.getStatus(),
+      suspectedGap: this.suspectedGap,
+      gapsFilled: this.gapsFilled,
+    };
+  }
 
-      // Skip any pending nonces
-      while (this.pendingNonces.has(nonce)) {
-        nonce++;
+  private async fillHoles(): Promise<void> {
+    for (const hole of this.tracker.holes()) {
+      if (this.tracker.claim(hole)) {
+        await this.sendNoop(hole);
       }
+    }
+  }
+
+  /**
+   * 0-value transfer to self at the node's suggested fees, to use up a
+   * nonce nothing else will
+   */
+  private async sendNoop(nonce: number): Promise<void> {
+    try {
+      const tx = await this.wallet.sendTransaction({
+        to: this.address,
+        value: 0n,
+        gasLimit: 21000n,
+        nonce,
+      });
+      this.tracker.sent(nonce);
+      this.gapsFilled++;
+      logger.warn("Filled nonce gap with a no-op", { address: this.address, nonce, txHash: tx.hash });
+    } catch (error) {
+      // Most likely the nonce was used after all; the chain count will tell
+      this.tracker.release(nonce);
+      await this.resync();
+      logger.warn("Nonce gap fill rejected", {
+        address: this.address,
+        nonce,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private pendingCount(): Promise<number> {
+    return this.wallet.provider!.getTransactionCount(this.address, "pending");
+  }
 
-      // Mark this nonce as pending
-      this.pendingNonces.add(nonce);
-      this.currentNonce = nonce + 1;
+  private async ready(): Promise<void> {
+    if (this.tracker.initialized) return;
+    if (!this.initializing) {
+      this.initializing = this.pendingCount()
+        .then((nonce) => {
+          this.tracker.init(nonce);
+          logger.info("Nonce manager initialized", { address: this.address, nonce });
+        })
+        .finally(() => {
+          this.initializing = null;
+        });
+    }
+    await this.initializing;
+  }
+}
 
-      logger.debug("Allocated nonce", { nonce, pending: [...this.pendingNonces] });
+export class NonceService {
+  private managers = new Map<string, NonceManager>();
+  private intervalId: NodeJS.Timeout | null = null;
 
-      return nonce;
-    } finally {
-      resolveNext!();
+  /**
+   * The manager for a wallet's address
+   */
+  forWallet(wallet: Wallet): NonceManager {
+    const key = wallet.address.toLowerCase();
+    let manager = this.managers.get(key);
+    if (!manager) {
+      manager = new NonceManager(wallet);
+      this.managers.set(key, manager);
     }
+    return manager;
   }
 
-  confirmNonce(nonce: number): void {
-    this.pendingNonces.delete(nonce);
-    logger.debug("Confirmed nonce", { nonce });
+  /**
+   * Drop the manager for an address that no longer sends (a retired relayer)
+   */
+  forget(address: string): void {
+    this.managers.delete(address.toLowerCase());
   }
 
-  releaseNonce(nonce: number): void {
-    this.pendingNonces.delete(nonce);
-    logger.debug("Released nonce", { nonce });
+  /**
+   * Send from `wallet` with a managed nonce
+   */
+  send<T>(wallet: Wallet, send: (nonce: number) => Promise<T>): Promise<T> {
+    return this.forWallet(wallet).send(send);
   }
 
-  async resync(): Promise<void> {
-    this.currentNonce = null;
-    this.pendingNonces.clear();
-    await this.initialize();
+  /**
+   * Start the periodic gap check
+   */
+  start(): void {
+    if (this.intervalId) return;
+    this.intervalId = setInterval(() => {
+      for (const manager of this.managers.values()) {
+        manager.checkGaps().catch((error) => {
+          logger.error("Nonce gap check failed", { address: manager.address, error });
+        });
+      }
+    }, GAP_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  getStatus() {
+    return [...this.managers.values()].map((manager) => manager.getStatus());
   }
 }
 
@@ -1,13 +1,31 @@
-import { ethers, Contract } from "ethers";
+import { readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { ethers, Contract, TypedDataDomain, TypedDataEncoder, Wallet, formatUnits } from "ethers";
 import { env } from "../config/env.js";
+import { PRICING, X402 } from "../config/constants.js";
 import { logger } from "../utils/logger.js";
+import {
+  AuthorizationType,
+  recoverAuthorizationSigner,
+  splitSignature,
+} from "../utils/eip3009.js";
 import { walletService } from "./wallet.service.js";
+import { relayerPool } from "./relayer-pool.service.js";
+import { facilitatorService } from "./facilitator.service.js";
+import { settlementService } from "./settlement.service.js";
+import { nonceService } from "./nonce.service.js";
 
-// EIP-3009 ABI for transferWithAuthorization
+const FORWARD_RETRY_INTERVAL_MS = 60000;
+
+// EIP-3009 ABI for transfer/receiveWithAuthorization
 const USDC_ABI = [
   "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+  "function receiveWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
   "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
   "function balanceOf(address owner) view returns (uint256)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function name() view returns (string)",
   "function DOMAIN_SEPARATOR() view returns (bytes32)",
 ];
 
@@ -25,13 +43,70 @@ export interface X402Payment {
   scheme: string;
   network: string;
   payload: {
-    signature: string; // 0x + r + s + v (65 bytes hex)
+    signature: string; // 65-byte (r + s + v) or 64-byte EIP-2098 compact hex
     authorization: X402Authorization;
   };
 }
 
+// Entry of the 402 `accepts` array (also what facilitator callers send us)
+export interface X402PaymentRequirements {
+  scheme: string;
+  network: string;
+  asset: string;
+  payTo: string;
+  maxAmountRequired: string;
+  description?: string;
+  resource?: string;
+  mimeType?: string;
+  maxTimeoutSeconds?: number;
+  extra?: {
+    name?: string;       // USDC EIP-712 domain name
+    version?: string;    // USDC EIP-712 domain version
+    primaryType?: AuthorizationType;
+    requestHash?: string;  // Authorization nonce must equal this (see utils/payment-binding)
+  };
+}
+
+export interface PaymentRequirementsOptions {
+  resource?: string;
+  scheme?: string;      // X402.SCHEME (default) or X402.SCHEME_UPTO
+  requestHash?: string; // ForwardRequest/batch hash the payment must bind to
+}
+
+export interface PaymentVerification {
+  valid: boolean;
+  reason?: string;
+  payer?: string;
+}
+
+// Outcome of settling a payment on-chain
+export interface PaymentSettlement {
+  success: boolean;
+  transaction: string;
+  network: string;
+  payer: string;
+}
+
+// "receive" mode payment still on the settlement wallet, waiting to reach RECEIVING_WALLET
+export interface PendingForward {
+  paymentTxHash: string;
+  relayer: string;               // Wallet that received the payment and holds the USDC
+  value: string;                 // USDC base units
+  attempts: number;
+  forwardTxHash: string | null;  // Last transfer sent, if any
+  lastError: string | null;
+  since: string;
+}
+
 export class PaymentService {
   private usdcContract: Contract;
+  private usdcDomain: TypedDataDomain | null = null;
+  private pendingForwards = new Map<string, PendingForward>(); // By payment tx hash
+  private forwarding = new Set<string>(); // Payment tx hashes with a forward being sent
+  private forwardRetryId: NodeJS.Timeout | null = null;
+  private retryingForwards = false;
+  private savingForwards = false;
+  private saveForwardsQueued = false;
 
   constructor() {
     this.usdcContract = new Contract(
@@ -39,6 +114,113 @@ export class PaymentService {
       USDC_ABI,
       walletService.wallet
     );
+
+    if (facilitatorService) {
+      logger.info("Delegating x402 verification and settlement", {
+        facilitator: facilitatorService.url,
+      });
+      if (env.PAYMENT_SETTLEMENT_MODE !== "transfer") {
+        logger.warn(`PAYMENT_SETTLEMENT_MODE=${env.PAYMENT_SETTLEMENT_MODE} is ignored with a remote facilitator`);
+      }
+    }
+
+    this.loadForwards();
+  }
+
+  /**
+   * Whether verification and settlement are delegated to X402_FACILITATOR_URL
+   */
+  get usesRemoteFacilitator(): boolean {
+    return facilitatorService !== null;
+  }
+
+  /**
+   * "receive" and "atomic" need our relayer to settle, so they only apply locally
+   */
+  private get settlementMode(): "transfer" | "receive" | "atomic" {
+    return facilitatorService ? "transfer" : env.PAYMENT_SETTLEMENT_MODE;
+  }
+
+  /**
+   * Only the payee can submit receiveWithAuthorization: the Settlement
+   * contract in "atomic" mode, otherwise the settlement wallet
+   */
+  private get receivePayee(): string {
+    return this.settlementMode === "atomic"
+      ? settlementService.address
+      : this.settlementWallet.address;
+  }
+
+  /**
+   * Wallet that submits settlements. In "receive" mode it is also the payee,
+   * since receiveWithAuthorization must be called by the recipient.
+   */
+  private get settlementWallet(): Wallet {
+    return relayerPool.size > 0 ? relayerPool.getPrimaryRelayer().wallet : walletService.wallet;
+  }
+
+  /**
+   * EIP-3009 message agents must sign for the configured settlement mode
+   */
+  getAuthorizationType(): AuthorizationType {
+    return this.settlementMode === "transfer"
+      ? "TransferWithAuthorization"
+      : "ReceiveWithAuthorization";
+  }
+
+  /**
+   * Address agents must authorize payment to
+   */
+  getPayTo(): string {
+    return this.settlementMode === "transfer"
+      ? env.RECEIVING_WALLET
+      : this.receivePayee;
+  }
+
+  /**
+   * Whether /x402/verify|settle may settle a payment to this address:
+   * FACILITATOR_PAY_TO_ALLOWLIST if set, else only addresses that pay us
+   */
+  isAllowedFacilitatorPayTo(payTo: string): boolean {
+    const allowed = env.FACILITATOR_PAY_TO_ALLOWLIST
+      ?? [env.RECEIVING_WALLET, this.settlementWallet.address, this.getPayTo()];
+    return allowed.some((a) => a.toLowerCase() === payTo.toLowerCase());
+  }
+
+  /**
+   * Network identifier payments must use
+   */
+  getNetwork(): string {
+    return `${X402.NETWORK_PREFIX}:${env.CHAIN_ID}`;
+  }
+
+  /**
+   * Build the x402 payment requirements advertised in a 402 response
+   */
+  async getPaymentRequirements(
+    maxAmountRequired: bigint,
+    description: string,
+    options: PaymentRequirementsOptions = {}
+  ): Promise<X402PaymentRequirements> {
+    const domain = await this.getUsdcDomain();
+
+    return {
+      scheme: options.scheme ?? X402.SCHEME,
+      network: this.getNetwork(),
+      asset: env.USDC_ADDRESS,
+      payTo: this.getPayTo(),
+      maxAmountRequired: maxAmountRequired.toString(),
+      description,
+      resource: options.resource,
+      mimeType: "application/json",
+      maxTimeoutSeconds: PRICING.QUOTE_VALIDITY_SECONDS,
+      extra: {
+        name: domain.name as string,
+        version: domain.version as string,
+        primaryType: this.getAuthorizationType(),
+        requestHash: options.requestHash,
+      },
+    };
   }
 
   /**
@@ -54,43 +236,137 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Encode a settlement as the base64 X-PAYMENT-RESPONSE header value
+   */
+  encodePaymentResponseHeader(settlement: PaymentSettlement): string {
+    return Buffer.from(JSON.stringify(settlement)).toString("base64");
+  }
+
+  /**
+   * Rebuild the USDC EIP-712 domain (cached).
+   * Name comes from USDC_EIP712_NAME or the token's name(); the result is
+   * checked against the on-chain DOMAIN_SEPARATOR when the token exposes it.
+   */
+  async getUsdcDomain(): Promise<TypedDataDomain> {
+    if (this.usdcDomain) return this.usdcDomain;
+
+    const name = env.USDC_EIP712_NAME ?? (await this.usdcContract.name());
+    const domain: TypedDataDomain = {
+      name,
+      version: env.USDC_EIP712_VERSION,
+      chainId: env.CHAIN_ID,
+      verifyingContract: env.USDC_ADDRESS,
+    };
+
+    try {
+      const onChainSeparator: string = await this.usdcContract.DOMAIN_SEPARATOR();
+      const localSeparator = TypedDataEncoder.hashDomain(domain);
+      if (onChainSeparator.toLowerCase() !== localSeparator.toLowerCase()) {
+        logger.error("USDC EIP-712 domain mismatch - check USDC_EIP712_NAME/VERSION", {
+          domain,
+          onChainSeparator,
+          localSeparator,
+        });
+      }
+    } catch (error) {
+      logger.debug("Could not read USDC DOMAIN_SEPARATOR", { error });
+    }
+
+    this.usdcDomain = domain;
+    return domain;
+  }
+
   /**
    * Verify payment meets requirements without executing
    */
   async verifyPayment(
     payment: X402Payment,
-    expectedAmount: bigint
-  ): Promise<{ valid: boolean; reason?: string }> {
-    const auth = payment.payload.authorization;
+    requirements: X402PaymentRequirements
+  ): Promise<PaymentVerification> {
+    const auth = payment.payload?.authorization;
+    if (!auth || !payment.payload.signature) {
+      return { valid: false, reason: "Missing authorization or signature" };
+    }
+
+    if (facilitatorService) {
+      try {
+        return await facilitatorService.verify(payment, requirements);
+      } catch (error) {
+        logger.error("Facilitator verification failed", { error });
+        return { valid: false, reason: "Facilitator unavailable", payer: auth.from };
+      }
+    }
+    const payer = auth.from;
+
+    // Check scheme, network and asset
+    const supportedScheme = requirements.scheme === X402.SCHEME || requirements.scheme === X402.SCHEME_UPTO;
+    if (payment.scheme !== requirements.scheme || !supportedScheme) {
+      return { valid: false, reason: `Unsupported scheme: ${payment.scheme}`, payer };
+    }
+    if (payment.network !== requirements.network || requirements.network !== this.getNetwork()) {
+      return { valid: false, reason: `Unsupported network: ${payment.network}`, payer };
+    }
+    if (requirements.asset.toLowerCase() !== env.USDC_ADDRESS.toLowerCase()) {
+      return { valid: false, reason: `Unsupported asset: ${requirements.asset}`, payer };
+    }
 
     // Check recipient
-    if (auth.to.toLowerCase() !== env.RECEIVING_WALLET.toLowerCase()) {
-      return { valid: false, reason: "Wrong recipient address" };
+    const primaryType = requirements.extra?.primaryType ?? "TransferWithAuthorization";
+    if (auth.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      return { valid: false, reason: "Wrong recipient address", payer };
+    }
+    // receiveWithAuthorization can only be submitted by the payee, i.e. us
+    if (
+      primaryType === "ReceiveWithAuthorization" &&
+      auth.to.toLowerCase() !== this.receivePayee.toLowerCase()
+    ) {
+      return { valid: false, reason: `ReceiveWithAuthorization must pay ${this.receivePayee}`, payer };
     }
 
     // Check amount
     const paymentAmount = BigInt(auth.value);
+    const expectedAmount = BigInt(requirements.maxAmountRequired);
     if (paymentAmount < expectedAmount) {
       return {
         valid: false,
         reason: `Insufficient amount: got ${auth.value}, need ${expectedAmount}`,
+        payer,
       };
     }
 
     // Check timing
     const now = Math.floor(Date.now() / 1000);
     if (now <= Number(auth.validAfter)) {
-      return { valid: false, reason: "Authorization not yet valid" };
+      return { valid: false, reason: "Authorization not yet valid", payer };
     }
     if (now >= Number(auth.validBefore)) {
-      return { valid: false, reason: "Authorization expired" };
+      return { valid: false, reason: "Authorization expired", payer };
+    }
+
+    // Check the authorization was signed by the payer, for the message type
+    // that will be submitted
+    try {
+      const domain = await this.getUsdcDomain();
+      const signer = recoverAuthorizationSigner(
+        domain,
+        auth,
+        payment.payload.signature,
+        primaryType
+      );
+      if (signer.toLowerCase() !== auth.from.toLowerCase()) {
+        return { valid: false, reason: "Invalid signature: signer does not match payer", payer };
+      }
+    } catch (error) {
+      logger.warn("Failed to recover payment signer", { error });
+      return { valid: false, reason: "Invalid signature", payer };
     }
 
     // Check nonce hasn't been used
     try {
       const used = await this.usdcContract.authorizationState(auth.from, auth.nonce);
       if (used) {
-        return { valid: false, reason: "Authorization nonce already used" };
+        return { valid: false, reason: "Authorization nonce already used", payer };
       }
     } catch (error) {
       logger.warn("Failed to check nonce state", { error });
@@ -103,35 +379,74 @@ export class PaymentService {
         return {
           valid: false,
           reason: `Payer has insufficient USDC: ${balance} < ${paymentAmount}`,
+          payer,
         };
       }
     } catch (error) {
       logger.warn("Failed to check payer balance", { error });
     }
 
-    return { valid: true };
+    return { valid: true, payer };
   }
 
   /**
-   * Execute the EIP-3009 transferWithAuthorization
+   * Execute the EIP-3009 authorization (or have the remote facilitator do it).
+   * TransferWithAuthorization goes straight to the payee; ReceiveWithAuthorization
+   * ("receive" mode) pays the settlement wallet, which then forwards the funds
+   * to RECEIVING_WALLET. In "atomic" mode the Settlement contract collects it;
+   * routes that execute a meta-transaction use settlementService directly instead.
    */
-  async executePayment(payment: X402Payment): Promise<string> {
+  async executePayment(
+    payment: X402Payment,
+    requirements: X402PaymentRequirements
+  ): Promise<PaymentSettlement> {
     const auth = payment.payload.authorization;
     const sig = payment.payload.signature;
+    const primaryType = requirements.extra?.primaryType ?? "TransferWithAuthorization";
 
-    // Parse signature (0x + 64 bytes r + 64 bytes s + 2 bytes v)
-    const r = "0x" + sig.slice(2, 66);
-    const s = "0x" + sig.slice(66, 130);
-    const v = parseInt(sig.slice(130, 132), 16);
+    if (facilitatorService) {
+      logger.info("Settling x402 payment via facilitator", {
+        from: auth.from,
+        to: auth.to,
+        value: auth.value,
+      });
+      const settlement = await facilitatorService.settle(payment, requirements);
+      logger.info("Payment settled by facilitator", { txHash: settlement.transaction });
+      return settlement;
+    }
+
+    if (primaryType === "ReceiveWithAuthorization" && this.settlementMode === "atomic") {
+      logger.info("Settling x402 payment via Settlement contract", {
+        from: auth.from,
+        value: auth.value,
+      });
+      const txHash = await settlementService.settle(payment);
+      return {
+        success: true,
+        transaction: txHash,
+        network: requirements.network,
+        payer: auth.from,
+      };
+    }
+
+    // Parse signature (65-byte or EIP-2098 compact, v normalised to 27/28)
+    const { v, r, s } = splitSignature(sig);
 
     logger.info("Executing x402 payment", {
       from: auth.from,
       to: auth.to,
       value: auth.value,
+      primaryType,
     });
 
     try {
-      const tx = await this.usdcContract.transferWithAuthorization(
+      const wallet = this.settlementWallet;
+      const usdc = this.usdcContract.connect(wallet) as Contract;
+      const settle = primaryType === "ReceiveWithAuthorization"
+        ? usdc.receiveWithAuthorization
+        : usdc.transferWithAuthorization;
+
+      const tx = await nonceService.send(wallet, (nonce) => settle(
         auth.from,
         auth.to,
         BigInt(auth.value),
@@ -140,8 +455,9 @@ export class PaymentService {
         auth.nonce,
         v,
         r,
-        s
-      );
+        s,
+        { nonce }
+      ));
 
       logger.info("Payment transaction sent", { txHash: tx.hash });
 
@@ -156,12 +472,223 @@ export class PaymentService {
         blockNumber: receipt.blockNumber,
       });
 
-      return receipt.hash;
+      if (primaryType === "ReceiveWithAuthorization") {
+        // Don't hold up the relay on the forward; failures leave the USDC
+        // on the settlement wallet until a retry gets it through
+        this.queueForward(BigInt(auth.value), receipt.hash, wallet.address);
+      }
+
+      return {
+        success: true,
+        transaction: receipt.hash,
+        network: requirements.network,
+        payer: auth.from,
+      };
     } catch (error) {
       logger.error("Payment execution failed", { error });
       throw error;
     }
   }
+
+  /**
+   * Record USDC collected by receiveWithAuthorization as owed to
+   * RECEIVING_WALLET and forward it
+   */
+  private queueForward(value: bigint, paymentTxHash: string, relayer: string): void {
+    if (relayer.toLowerCase() === env.RECEIVING_WALLET.toLowerCase()) {
+      return;
+    }
+
+    const forward: PendingForward = {
+      paymentTxHash,
+      relayer,
+      value: value.toString(),
+      attempts: 0,
+      forwardTxHash: null,
+      lastError: null,
+      since: new Date().toISOString(),
+    };
+    this.pendingForwards.set(paymentTxHash, forward);
+    this.saveForwards();
+    this.forwardToReceivingWallet(forward);
+  }
+
+  /**
+   * Key for the wallet holding a forward's USDC: a pool relayer or the
+   * service wallet
+   */
+  private walletFor(address: string): Wallet | null {
+    if (walletService.address.toLowerCase() === address.toLowerCase()) return walletService.wallet;
+    return relayerPool.getRelayer(address)?.wallet ?? null;
+  }
+
+  /**
+   * Move a pending forward on to RECEIVING_WALLET. Never throws: a failure
+   * leaves it pending for the next retry.
+   */
+  private async forwardToReceivingWallet(forward: PendingForward): Promise<void> {
+    if (this.forwarding.has(forward.paymentTxHash)) return;
+
+    const wallet = this.walletFor(forward.relayer);
+    if (!wallet) {
+      forward.lastError = `No key for ${forward.relayer}`;
+      logger.error("Can't forward payment: the wallet holding it is not configured", {
+        paymentTxHash: forward.paymentTxHash,
+        relayer: forward.relayer,
+        value: forward.value,
+      });
+      return;
+    }
+
+    this.forwarding.add(forward.paymentTxHash);
+    try {
+      const usdc = this.usdcContract.connect(wallet) as Contract;
+      forward.attempts++;
+      const tx = await nonceService.send(wallet, (nonce) =>
+        usdc.transfer(env.RECEIVING_WALLET, BigInt(forward.value), { nonce })
+      );
+      forward.forwardTxHash = tx.hash;
+      this.saveForwards();
+
+      const receipt = await tx.wait();
+      if (receipt?.status !== 1) {
+        throw new Error(`Forward transaction failed: ${tx.hash}`);
+      }
+
+      this.pendingForwards.delete(forward.paymentTxHash);
+      logger.info("Payment forwarded to receiving wallet", {
+        paymentTxHash: forward.paymentTxHash,
+        forwardTxHash: receipt.hash,
+        value: forward.value,
+      });
+    } catch (error) {
+      forward.lastError = error instanceof Error ? error.message : String(error);
+      logger.error("Failed to forward payment to receiving wallet", {
+        error,
+        paymentTxHash: forward.paymentTxHash,
+        relayer: forward.relayer,
+        value: forward.value,
+        attempts: forward.attempts,
+      });
+    } finally {
+      this.forwarding.delete(forward.paymentTxHash);
+      this.saveForwards();
+    }
+  }
+
+  /**
+   * Retry pending forwards every FORWARD_RETRY_INTERVAL_MS
+   */
+  startForwardRetries(): void {
+    if (this.forwardRetryId) return;
+    this.forwardRetryId = setInterval(() => this.retryForwards(), FORWARD_RETRY_INTERVAL_MS);
+  }
+
+  stopForwardRetries(): void {
+    if (this.forwardRetryId) {
+      clearInterval(this.forwardRetryId);
+      this.forwardRetryId = null;
+    }
+  }
+
+  /**
+   * Resend each pending forward whose last transfer failed or was dropped.
+   * One still waiting to be mined is left alone, so nothing is paid twice.
+   */
+  async retryForwards(): Promise<void> {
+    if (this.retryingForwards) return;
+    this.retryingForwards = true;
+
+    try {
+      const provider = walletService.rpcProvider;
+      for (const forward of [...this.pendingForwards.values()]) {
+        try {
+          if (forward.forwardTxHash) {
+            const receipt = await provider.getTransactionReceipt(forward.forwardTxHash);
+            if (receipt?.status === 1) {
+              this.pendingForwards.delete(forward.paymentTxHash);
+              this.saveForwards();
+              continue;
+            }
+            if (!receipt && (await provider.getTransaction(forward.forwardTxHash))) continue;
+          }
+          await this.forwardToReceivingWallet(forward);
+        } catch (error) {
+          logger.error("Forward retry failed", { paymentTxHash: forward.paymentTxHash, error });
+        }
+      }
+    } finally {
+      this.retryingForwards = false;
+    }
+  }
+
+  /**
+   * Write the pending forwards to FORWARD_LEDGER_PATH, one write at a time:
+   * changes made during a write are saved by one more write after it. If a
+   * write fails they are logged in full instead.
+   */
+  private saveForwards(): void {
+    if (this.savingForwards) {
+      this.saveForwardsQueued = true;
+      return;
+    }
+    this.savingForwards = true;
+
+    const forwards = [...this.pendingForwards.values()];
+    const path = env.FORWARD_LEDGER_PATH;
+    mkdir(dirname(path), { recursive: true })
+      .then(() => writeFile(`${path}.tmp`, JSON.stringify(forwards, null, 2)))
+      .then(() => rename(`${path}.tmp`, path))
+      .catch((error: unknown) => {
+        logger.error("Failed to save pending forwards", { path, error, forwards });
+      })
+      .finally(() => {
+        this.savingForwards = false;
+        if (this.saveForwardsQueued) {
+          this.saveForwardsQueued = false;
+          this.saveForwards();
+        }
+      });
+  }
+
+  /**
+   * Reload forwards left pending by a previous run; the retry loop picks them up
+   */
+  private loadForwards(): void {
+    const path = env.FORWARD_LEDGER_PATH;
+    let forwards: PendingForward[];
+    try {
+      forwards = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error("Failed to load pending forwards", { path, error });
+      }
+      return;
+    }
+
+    for (const forward of forwards) {
+      this.pendingForwards.set(forward.paymentTxHash, forward);
+    }
+    if (forwards.length > 0) {
+      logger.warn("Payments still to forward from a previous run", {
+        path,
+        forwards: forwards.map(({ paymentTxHash, relayer, value }) => ({ paymentTxHash, relayer, value })),
+      });
+    }
+  }
+
+  /**
+   * USDC collected in "receive" mode that hasn't reached RECEIVING_WALLET yet
+   */
+  getPendingForwards() {
+    const forwards = [...this.pendingForwards.values()];
+    const total = forwards.reduce((sum, f) => sum + BigInt(f.value), 0n);
+    return {
+      count: forwards.length,
+      strandedUsdc: formatUnits(total, 6),
+      forwards,
+    };
+  }
 }
 
 // Singleton
@@ -0,0 +1,203 @@
+/**
+ * Preview Service
+ *
+ * Shows what a ForwardRequest will do before anyone pays for it: the call
+ * tree, token Transfer/Approval events and CRO balance changes of
+ * forwarder.execute as the relayer would send it.
+ *
+ * Uses debug_traceCall (callTracer with logs) when the RPC has it, else
+ * eth_simulateV1, which returns the event logs (and CRO transfers) but no
+ * call tree. Without a signature the signature check is swapped out with
+ * a state override, as for /meta/estimate.
+ */
+
+import { Interface, toQuantity } from "ethers";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { GasStationError } from "../utils/errors.js";
+import { DecodedRevert, decodeRevert } from "../utils/revert.js";
+import {
+  BalanceDelta,
+  CallNode,
+  TokenEvent,
+  TraceFrame,
+  TraceLog,
+  ValueTransfer,
+  balanceDeltas,
+  collectLogs,
+  collectValueTransfers,
+  decodeTokenEvents,
+  nativeTransfersFromLogs,
+  toCallTree,
+} from "../utils/preview.js";
+import { walletService } from "./wallet.service.js";
+import { ForwardRequest, KNOWN_ERRORS, SIMULATION_SIGNATURE } from "./forwarder.service.js";
+import ForwarderABI from "../config/Forwarder.abi.json" with { type: "json" };
+import SimulationForwarder from "../config/SimulationForwarder.json" with { type: "json" };
+
+type PreviewMethod = "trace" | "simulate";
+
+export interface TransactionPreview {
+  method: PreviewMethod;
+  success: boolean;
+  stage?: "forwarder" | "inner"; // Which call failed
+  revert?: DecodedRevert;
+  gasUsed: string;
+  callTree: CallNode | null; // Only from debug_traceCall
+  transfers: TokenEvent[];
+  approvals: TokenEvent[];
+  nativeDeltas: BalanceDelta[];
+  signatureChecked: boolean;
+}
+
+// eth_simulateV1 result for a single call
+interface SimulatedCall {
+  status: string;
+  returnData: string;
+  gasUsed: string;
+  logs?: TraceLog[];
+  error?: { data?: string };
+}
+
+export class PreviewService {
+  private forwarderInterface = new Interface(ForwarderABI);
+  // RPC methods the node has said it doesn't have
+  private unsupported = new Set<PreviewMethod>();
+
+  /**
+   * Preview a request. Throws PREVIEW_UNAVAILABLE (501) when the RPC
+   * supports neither method.
+   */
+  async preview(request: ForwardRequest, signature?: string): Promise<TransactionPreview> {
+    const tx = {
+      from: walletService.address,
+      to: env.FORWARDER_ADDRESS,
+      data: this.forwarderInterface.encodeFunctionData("execute", [
+        [
+          request.from,
+          request.to,
+          BigInt(request.value),
+          BigInt(request.gas),
+          BigInt(request.nonce),
+          BigInt(request.deadline),
+          request.data,
+        ],
+        signature ?? SIMULATION_SIGNATURE,
+      ]),
+      value: toQuantity(BigInt(request.value)),
+    };
+    const overrides = signature
+      ? undefined
+      : { [env.FORWARDER_ADDRESS]: { code: SimulationForwarder.deployedBytecode } };
+
+    for (const method of ["trace", "simulate"] as const) {
+      if (this.unsupported.has(method)) continue;
+      try {
+        const preview = method === "trace"
+          ? await this.trace(tx, overrides)
+          : await this.simulate(tx, overrides);
+        return { ...preview, signatureChecked: signature !== undefined };
+      } catch (error) {
+        if (!isMethodMissing(error)) throw error;
+        logger.info("RPC has no support for transaction preview method", { method });
+        this.unsupported.add(method);
+      }
+    }
+
+    throw new GasStationError(
+      "Transaction preview needs debug_traceCall or eth_simulateV1 on the RPC",
+      "PREVIEW_UNAVAILABLE",
+      501
+    );
+  }
+
+  /**
+   * Preview for a 402 quote: null instead of an error, so quoting never fails on it
+   */
+  async tryPreview(request: ForwardRequest, signature?: string): Promise<TransactionPreview | null> {
+    try {
+      return await this.preview(request, signature);
+    } catch (error) {
+      logger.debug("No preview for quote", { error: error instanceof Error ? error.message : error });
+      return null;
+    }
+  }
+
+  private async trace(
+    tx: Record<string, string>,
+    overrides?: Record<string, unknown>
+  ): Promise<Omit<TransactionPreview, "signatureChecked">> {
+    const frame: TraceFrame = await walletService.rpcProvider.send("debug_traceCall", [
+      tx,
+      "latest",
+      { tracer: "callTracer", tracerConfig: { withLog: true }, stateOverrides: overrides },
+    ]);
+
+    const { transfers, approvals } = decodeTokenEvents(collectLogs(frame));
+    return {
+      method: "trace",
+      ...this.outcome(frame.error ? null : frame.output ?? "0x", frame.output),
+      gasUsed: BigInt(frame.gasUsed ?? 0).toString(),
+      callTree: toCallTree(frame, KNOWN_ERRORS),
+      transfers,
+      approvals,
+      nativeDeltas: balanceDeltas(collectValueTransfers(frame)),
+    };
+  }
+
+  private async simulate(
+    tx: Record<string, string>,
+    overrides?: Record<string, unknown>
+  ): Promise<Omit<TransactionPreview, "signatureChecked">> {
+    const [block] = await walletService.rpcProvider.send("eth_simulateV1", [
+      {
+        blockStateCalls: [{ stateOverrides: overrides, calls: [tx] }],
+        traceTransfers: true,
+        validation: false,
+      },
+      "latest",
+    ]);
+    const call: SimulatedCall = block.calls[0];
+
+    // A reverted call's logs are discarded, including the relayer's own CRO transfer
+    const logs = call.status === "0x1" ? call.logs ?? [] : [];
+    const { transfers, approvals } = decodeTokenEvents(logs);
+    const native: ValueTransfer[] = nativeTransfersFromLogs(logs);
+    return {
+      method: "simulate",
+      ...this.outcome(call.status === "0x1" ? call.returnData : null, call.error?.data ?? call.returnData),
+      gasUsed: BigInt(call.gasUsed).toString(),
+      callTree: null,
+      transfers,
+      approvals,
+      nativeDeltas: balanceDeltas(native),
+    };
+  }
+
+  /**
+   * Success and revert from execute()'s return data, or its revert data
+   * when execute() itself failed (returnData null)
+   */
+  private outcome(returnData: string | null, revertData?: string): Pick<TransactionPreview, "success" | "stage" | "revert"> {
+    if (returnData === null) {
+      return { success: false, stage: "forwarder", revert: decodeRevert(revertData, KNOWN_ERRORS) };
+    }
+    const [success, result] = this.forwarderInterface.decodeFunctionResult("execute", returnData);
+    if (success) return { success: true };
+    return { success: false, stage: "inner", revert: decodeRevert(result, KNOWN_ERRORS) };
+  }
+}
+
+/**
+ * The node doesn't have the method (or the tracer), as opposed to the call failing
+ */
+function isMethodMissing(error: unknown): boolean {
+  const rpcError = (error as { error?: { code?: number; message?: string } }).error;
+  if (rpcError?.code === -32601) return true;
+  return /(method|tracer).*(not found|does not exist|not available|not supported|unsupported)/i.test(
+    rpcError?.message ?? ""
+  );
+}
+
+// Singleton
+export const previewService = new PreviewService();
@@ -0,0 +1,188 @@
+/**
+ * CRO/USD Price Oracle
+ *
+ * Shared by pricing and rebalancing. Polls the configured sources
+ * (ORACLE_SOURCES), takes the median of fresh samples, and refuses to
+ * return a price when samples are stale or the sources disagree.
+ * ORACLE_MANUAL_CRO_PRICE, while set, is used instead of the median; the
+ * sources are still polled and reported.
+ */
+
+import { ethers, formatUnits, parseUnits } from "ethers";
+import { env } from "../config/env.js";
+import { CRONOS_MAINNET, CRONOS_TESTNET } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+import { PriceUnavailableError } from "../utils/errors.js";
+import { AggregationResult, PriceSample, aggregatePrices, applyManualPrice } from "../utils/price-aggregation.js";
+import { walletService } from "./wallet.service.js";
+
+export type OracleSourceName = "cryptocom" | "vvs" | "coingecko";
+
+export interface OracleSourceStatus {
+  name: OracleSourceName;
+  price: number | null;
+  updatedAt: Date | null;
+  error?: string;
+}
+
+const VVS_ROUTER_ABI = [
+  "function getAmountsOut(uint amountIn, address[] calldata path) external view returns (uint[] memory amounts)",
+];
+
+const FETCH_TIMEOUT_MS = 10000;
+
+export class PriceOracleService {
+  private samples: Map<OracleSourceName, PriceSample> = new Map();
+  private errors: Map<OracleSourceName, string> = new Map();
+  private lastRefresh: Date | null = null;
+  private wasHealthy = true;
+  private network = env.CHAIN_ID === 25 ? CRONOS_MAINNET : CRONOS_TESTNET;
+
+  private fetchers: Record<OracleSourceName, () => Promise<number>> = {
+    cryptocom: () => this.fetchCryptoCom(),
+    vvs: () => this.fetchVvs(),
+    coingecko: () => this.fetchCoinGecko(),
+  };
+
+  constructor() {
+    this.refresh();
+    setInterval(() => this.refresh(), env.ORACLE_REFRESH_INTERVAL_MS);
+
+    logger.info("Price oracle initialized", {
+      sources: env.ORACLE_SOURCES,
+      manualPrice: env.ORACLE_MANUAL_CRO_PRICE ?? null,
+      maxAgeSeconds: env.ORACLE_MAX_AGE_SECONDS,
+      maxDeviationPercent: env.ORACLE_MAX_DEVIATION_PERCENT,
+      minSources: env.ORACLE_MIN_SOURCES,
+    });
+  }
+
+  /**
+   * Poll every configured source. A failing source keeps its last sample,
+   * which stops counting once it is older than ORACLE_MAX_AGE_SECONDS.
+   */
+  async refresh(): Promise<void> {
+    const sources = env.ORACLE_SOURCES as OracleSourceName[];
+    const results = await Promise.allSettled(sources.map((name) => this.fetchers[name]()));
+
+    results.forEach((result, i) => {
+      const source = sources[i];
+      if (result.status === "fulfilled" && Number.isFinite(result.value) && result.value > 0) {
+        this.samples.set(source, { source, price: result.value, timestamp: Date.now() });
+        this.errors.delete(source);
+      } else {
+        const error = result.status === "rejected"
+          ? (result.reason instanceof Error ? result.reason.message : String(result.reason))
+          : `Invalid price: ${result.value}`;
+        this.errors.set(source, error);
+        logger.debug("Price source failed", { source, error });
+      }
+    });
+    this.lastRefresh = new Date();
+
+    const aggregate = this.resolve();
+    if (aggregate.ok !== this.wasHealthy) {
+      if (aggregate.ok) {
+        logger.info("Price oracle recovered", { price: aggregate.price, sources: aggregate.sources });
+      } else {
+        logger.error("Price oracle unavailable, quotes are refused", { reason: aggregate.reason });
+      }
+      this.wasHealthy = aggregate.ok;
+    }
+    if (aggregate.ok) {
+      logger.debug("CRO price updated", { price: aggregate.price, sources: aggregate.sources });
+    }
+  }
+
+  /**
+   * Manual or median CRO/USD price. Throws PriceUnavailableError when the
+   * median is stale or disputed and there is no manual price.
+   */
+  getPrice(): number {
+    const aggregate = this.resolve();
+    if (!aggregate.ok) {
+      throw new PriceUnavailableError(aggregate.reason);
+    }
+    return aggregate.price;
+  }
+
+  getStatus() {
+    const aggregate = this.aggregate();
+    const sources: OracleSourceStatus[] = (env.ORACLE_SOURCES as OracleSourceName[]).map((name) => {
+      const sample = this.samples.get(name);
+      return {
+        name,
+        price: sample?.price ?? null,
+        updatedAt: sample ? new Date(sample.timestamp) : null,
+        error: this.errors.get(name),
+      };
+    });
+
+    const manualPrice = env.ORACLE_MANUAL_CRO_PRICE ?? null;
+    const resolved = applyManualPrice(aggregate, manualPrice);
+
+    return {
+      healthy: resolved.ok,
+      price: resolved.ok ? resolved.price : null,
+      manualPrice,
+      medianPrice: aggregate.ok ? aggregate.price : null,
+      reason: aggregate.ok ? undefined : aggregate.reason,
+      freshSources: aggregate.sources,
+      deviationPercent: aggregate.deviationPercent,
+      lastRefresh: this.lastRefresh,
+      sources,
+      config: {
+        maxAgeSeconds: env.ORACLE_MAX_AGE_SECONDS,
+        maxDeviationPercent: env.ORACLE_MAX_DEVIATION_PERCENT,
+        minSources: env.ORACLE_MIN_SOURCES,
+      },
+    };
+  }
+
+  /**
+   * What quotes use: the manual price if set, else the aggregate
+   */
+  private resolve(): AggregationResult {
+    return applyManualPrice(this.aggregate(), env.ORACLE_MANUAL_CRO_PRICE ?? null);
+  }
+
+  private aggregate(): AggregationResult {
+    return aggregatePrices(Array.from(this.samples.values()), {
+      now: Date.now(),
+      maxAgeMs: env.ORACLE_MAX_AGE_SECONDS * 1000,
+      maxDeviationPercent: env.ORACLE_MAX_DEVIATION_PERCENT,
+      minSources: env.ORACLE_MIN_SOURCES,
+    });
+  }
+
+  // Crypto.com Exchange public ticker; "a" is the last traded price
+  private async fetchCryptoCom(): Promise<number> {
+    const response = await fetch(
+      "https://api.crypto.com/exchange/v1/public/get-tickers?instrument_name=CRO_USD",
+      { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }
+    );
+    if (!response.ok) throw new Error(`Crypto.com HTTP ${response.status}`);
+    const data = await response.json() as { result?: { data?: Array<{ a?: string }> } };
+    return Number(data.result?.data?.[0]?.a);
+  }
+
+  // VVS spot: USDC out for 1 CRO
+  private async fetchVvs(): Promise<number> {
+    const router = new ethers.Contract(this.network.vvsRouter, VVS_ROUTER_ABI, walletService.rpcProvider);
+    const amounts = await router.getAmountsOut(parseUnits("1", 18), [this.network.wcro, env.USDC_ADDRESS]);
+    return parseFloat(formatUnits(amounts[1], 6));
+  }
+
+  private async fetchCoinGecko(): Promise<number> {
+    const response = await fetch(
+      "https://api.coingecko.com/api/v3/simple/price?ids=crypto-com-chain&vs_currencies=usd",
+      { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }
+    );
+    if (!response.ok) throw new Error(`CoinGecko HTTP ${response.status}`);
+    const data = await response.json() as Record<string, { usd?: number }>;
+    return Number(data["crypto-com-chain"]?.usd);
+  }
+}
+
+// Singleton
+export const priceOracle = new PriceOracleService();
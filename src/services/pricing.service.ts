@@ -1,17 +1,44 @@
-import { formatUnits, parseUnits } from "ethers";
+import { formatUnits, hexlify, parseEther, randomBytes } from "ethers";
 import { env } from "../config/env.js";
 import { PRICING } from "../config/constants.js";
 import { logger } from "../utils/logger.js";
 import { walletService } from "./wallet.service.js";
+import { priceOracle } from "./price-oracle.service.js";
+import { gasOracle } from "./gas-oracle.service.js";
+import { surgeService } from "./surge.service.js";
+import { SurgeResult } from "../utils/surge.js";
+import {
+  PriceBreakdown,
+  USDC_DECIMALS,
+  computePrice,
+  formatUsdc,
+  mulBpsCeil,
+  toBps,
+  toCroPrice,
+  toUsdcRaw,
+  valueToUsdcRaw,
+} from "../utils/price-math.js";
+import { checkValue } from "../utils/value-policy.js";
+import { ValueNotAllowedError } from "../utils/errors.js";
+import { FeePlan, planFees, planFeesFromTip } from "../utils/fees.js";
 
 // Priority tiers for smart gas pricing
 export type Priority = "slow" | "normal" | "fast";
 
+// When and how a stuck relay transaction is replaced with higher fees
+export interface BumpPolicy {
+  bumpAfterMs: number; // Wait this long for inclusion before bumping
+  bumpPercent: number; // Fee increase per bump (min 10%)
+  maxBumps: number;
+}
+
 export interface PriorityConfig {
   label: string;
   emoji: string;
   markupMultiplier: number;  // Multiplier on base markup
-  gasPriceMultiplier: number; // Multiplier on gas price
+  priorityFeeMultiplier: number; // Multiplier on the suggested EIP-1559 tip
+  gasPriceMultiplier: number; // Multiplier on gas price (legacy networks)
+  bump: BumpPolicy;
   estimatedTime: string;
 }
 
@@ -20,35 +47,52 @@ export const PRIORITY_CONFIGS: Record<Priority, PriorityConfig> = {
     label: "Slow",
     emoji: "🐢",
     markupMultiplier: 0.5,   // 50% of normal markup
+    priorityFeeMultiplier: 0.5, // Half the suggested tip
     gasPriceMultiplier: 0.8, // 80% gas price
+    bump: { bumpAfterMs: 60000, bumpPercent: 10, maxBumps: 1 },
     estimatedTime: "~30 sec",
   },
   normal: {
     label: "Normal",
     emoji: "🚗",
     markupMultiplier: 1.0,   // Standard markup
+    priorityFeeMultiplier: 1.0, // Suggested tip
     gasPriceMultiplier: 1.0, // Standard gas price
+    bump: { bumpAfterMs: 20000, bumpPercent: 15, maxBumps: 2 },
     estimatedTime: "~10 sec",
   },
   fast: {
     label: "Fast",
     emoji: "🚀",
     markupMultiplier: 2.0,   // 2x markup
+    priorityFeeMultiplier: 2.0, // 2x tip
     gasPriceMultiplier: 1.5, // 1.5x gas price
+    bump: { bumpAfterMs: 6000, bumpPercent: 25, maxBumps: 4 },
     estimatedTime: "~3 sec",
   },
 };
 
+// No tier is ever quoted below $0.005
+const MIN_PRICE_FLOOR_RAW = 5000n;
+
+// Cheapest first; matches the order of FEE_HISTORY_PERCENTILES
+export const PRIORITY_ORDER: Priority[] = ["slow", "normal", "fast"];
+
 export interface PriceQuote {
   gasEstimate: bigint;
   gasPriceGwei: string;
+  gasPrice: bigint; // Expected price per gas in wei (base fee + tip)
+  fees: FeePlan;
   croUsdPrice: number;
   baseCostUSD: number;
-  markup: number;
+  markup: number; // Includes the surge multiplier
+  surge: SurgeResult;
+  value: bigint;         // CRO value (wei) the relayer sends with the call
+  valueCostRaw: bigint;  // Its USDC cost, included in finalPriceRaw (0 unless VALUE_POLICY=charge)
   finalPriceUSDC: string;
   finalPriceRaw: bigint; // In USDC smallest units (6 decimals)
   validUntil: Date;
-  nonce: string;
+  nonce: string; // bytes32, used as the quote ID when the quote is issued
   priority: Priority;
   priorityConfig: PriorityConfig;
 }
@@ -61,43 +105,12 @@ export interface AllPriceQuotes {
 }
 
 export class PricingService {
-  private croUsdPrice: number = 0.15; // Default fallback
-  private lastPriceUpdate: Date = new Date(0);
-  private priceUpdateInterval = 60000; // 1 minute
-
-  constructor() {
-    // Start price updates
-    this.updateCroPrice();
-    setInterval(() => this.updateCroPrice(), this.priceUpdateInterval);
-  }
-
-  private async updateCroPrice(): Promise<void> {
-    try {
-      // TODO: Integrate with Crypto.com API or price oracle
-      // For now, use a fallback price
-      // In production, fetch from: https://api.crypto.com/v2/public/get-ticker?instrument_name=CRO_USD
-
-      // Simulated price fetch - replace with real API call
-      const response = await fetch(
-        "https://api.coingecko.com/api/v3/simple/price?ids=crypto-com-chain&vs_currencies=usd"
-      ).catch(() => null);
-
-      if (response?.ok) {
-        const data = await response.json() as Record<string, { usd?: number }>;
-        this.croUsdPrice = data["crypto-com-chain"]?.usd ?? this.croUsdPrice;
-      }
-
-      this.lastPriceUpdate = new Date();
-      logger.debug("CRO price updated", { price: this.croUsdPrice });
-    } catch (error) {
-      logger.warn("Failed to update CRO price, using fallback", {
-        fallback: this.croUsdPrice,
-      });
-    }
-  }
-
+  /**
+   * Current CRO/USD price from the oracle.
+   * Throws PriceUnavailableError when prices are stale or disputed.
+   */
   getCroUsdPrice(): number {
-    return this.croUsdPrice;
+    return priceOracle.getPrice();
   }
 
   async estimateGas(to: string, data: string, value: bigint = 0n): Promise<bigint> {
@@ -119,46 +132,70 @@ export class PricingService {
     }
   }
 
-  async calculatePrice(gasEstimate: bigint, priority: Priority = "normal"): Promise<PriceQuote> {
-    const baseGasPrice = await walletService.getGasPrice();
+  /**
+   * Fees a relay at this priority will send with (type 2 where supported)
+   */
+  async getFeePlan(priority: Priority = "normal"): Promise<FeePlan> {
     const priorityConfig = PRIORITY_CONFIGS[priority];
 
-    // Apply priority multiplier to gas price
-    const adjustedGasPrice = BigInt(Math.floor(Number(baseGasPrice) * priorityConfig.gasPriceMultiplier));
-    const gasPriceGwei = formatUnits(adjustedGasPrice, "gwei");
+    // Tips from recent blocks; the fixed multipliers are the fallback
+    if (env.GAS_PRICE_STRATEGY === "fee_history") {
+      const history = await gasOracle.getTips();
+      if (history) {
+        return planFeesFromTip(history.baseFee, history.tips[PRIORITY_ORDER.indexOf(priority)]);
+      }
+    }
 
-    // Calculate base cost in CRO
-    const gasCostWei = gasEstimate * adjustedGasPrice;
-    const gasCostCro = Number(formatUnits(gasCostWei, 18));
+    return planFees(
+      await walletService.getNetworkFees(),
+      priorityConfig.priorityFeeMultiplier,
+      priorityConfig.gasPriceMultiplier
+    );
+  }
 
-    // Convert to USD
-    const baseCostUSD = gasCostCro * this.croUsdPrice;
+  /**
+   * Apply VALUE_POLICY to the CRO value of a request (or a batch's total).
+   * Throws ValueNotAllowedError if it may not be relayed.
+   */
+  assertValueAllowed(value: bigint): void {
+    const check = checkValue(value, env.VALUE_POLICY, parseEther(env.MAX_VALUE_CRO.toFixed(18)));
+    if (!check.allowed) {
+      throw new ValueNotAllowedError(check.reason, value.toString());
+    }
+  }
 
-    // Apply markup with priority multiplier
-    const baseMarkup = 1 + env.MARKUP_PERCENTAGE / 100;
-    const markup = 1 + (baseMarkup - 1) * priorityConfig.markupMultiplier;
-    let finalPriceUSD = baseCostUSD * markup;
+  async calculatePrice(gasEstimate: bigint, priority: Priority = "normal", value: bigint = 0n): Promise<PriceQuote> {
+    this.assertValueAllowed(value);
+    const croUsdPrice = this.getCroUsdPrice();
+    const fees = await this.getFeePlan(priority);
+    const priorityConfig = PRIORITY_CONFIGS[priority];
 
-    // Ensure minimum price (adjusted by priority)
-    const minPrice = env.MIN_PRICE_USDC * priorityConfig.markupMultiplier;
-    finalPriceUSD = Math.max(finalPriceUSD, Math.max(minPrice, 0.005)); // At least $0.005
+    // Charge for base fee + priority tip, not the maxFeePerGas ceiling
+    const adjustedGasPrice = fees.expectedGasPrice;
+    const gasPriceGwei = formatUnits(adjustedGasPrice, "gwei");
 
-    // Ensure maximum price
-    finalPriceUSD = Math.min(finalPriceUSD, PRICING.MAX_PRICE_USDC);
+    const surge = surgeService.getSurge();
+    const breakdown = this.priceGas(gasEstimate, adjustedGasPrice, croUsdPrice, priority, surge.multiplier);
 
-    // Convert to USDC (6 decimals)
-    const finalPriceRaw = parseUnits(finalPriceUSD.toFixed(6), 6);
+    // CRO sent as value is sold at the oracle rate, outside the gas bounds
+    const valueCostRaw = this.priceValue(value, croUsdPrice);
+    const finalPriceRaw = breakdown.priceRaw + valueCostRaw;
 
     // Generate quote nonce
-    const nonce = `0x${Buffer.from(crypto.randomUUID().replace(/-/g, ""), "hex").toString("hex").slice(0, 64)}`;
+    const nonce = hexlify(randomBytes(32));
 
     return {
       gasEstimate,
       gasPriceGwei,
-      croUsdPrice: this.croUsdPrice,
-      baseCostUSD,
-      markup,
-      finalPriceUSDC: finalPriceUSD.toFixed(6),
+      gasPrice: adjustedGasPrice,
+      fees,
+      croUsdPrice,
+      baseCostUSD: Number(formatUnits(breakdown.baseCostRaw, USDC_DECIMALS)),
+      markup: breakdown.markupFactor,
+      surge,
+      value,
+      valueCostRaw,
+      finalPriceUSDC: formatUsdc(finalPriceRaw),
       finalPriceRaw,
       validUntil: new Date(Date.now() + PRICING.QUOTE_VALIDITY_SECONDS * 1000),
       nonce,
@@ -167,6 +204,78 @@ export class PricingService {
     };
   }
 
+  /**
+   * Price the gas a relay actually used (x402 "upto" scheme).
+   * Same markup and minimum as the quote, but priced at the receipt's
+   * effective gas price and capped at the amount the agent authorised.
+   * CRO value is always spent in full, so it is charged as quoted.
+   * Without a usable CRO price the authorised (quoted) amount is charged.
+   */
+  calculateActualCost(
+    gasUsed: bigint,
+    effectiveGasPrice: bigint,
+    priority: Priority,
+    maxAmountRaw: bigint,
+    value: bigint = 0n
+  ): { costRaw: bigint; costUSDC: string } {
+    let croUsdPrice: number;
+    try {
+      croUsdPrice = this.getCroUsdPrice();
+    } catch (error) {
+      logger.warn("No CRO price for actual cost, charging the authorised amount", { error });
+      return { costRaw: maxAmountRaw, costUSDC: formatUnits(maxAmountRaw, USDC_DECIMALS) };
+    }
+
+    const { priceRaw } = this.priceGas(
+      gasUsed,
+      effectiveGasPrice,
+      croUsdPrice,
+      priority,
+      surgeService.getSurge().multiplier
+    );
+    const totalRaw = priceRaw + this.priceValue(value, croUsdPrice);
+    const costRaw = totalRaw > maxAmountRaw ? maxAmountRaw : totalRaw;
+
+    return { costRaw, costUSDC: formatUnits(costRaw, USDC_DECIMALS) };
+  }
+
+  /**
+   * USDC charged for CRO value: the oracle rate under VALUE_POLICY=charge, else nothing
+   */
+  private priceValue(value: bigint, croUsdPrice: number): bigint {
+    if (value === 0n || env.VALUE_POLICY !== "charge") return 0n;
+    return valueToUsdcRaw(value, toCroPrice(croUsdPrice));
+  }
+
+  /**
+   * Exact USDC price for gas at a gas price: priority and surge markup,
+   * then the min/max bounds. Rounds up (see utils/price-math).
+   */
+  private priceGas(
+    gasUnits: bigint,
+    gasPrice: bigint,
+    croUsdPrice: number,
+    priority: Priority,
+    surgeMultiplier: number
+  ): PriceBreakdown {
+    const priorityBps = toBps(PRIORITY_CONFIGS[priority].markupMultiplier);
+    const surgeBps = toBps(surgeMultiplier);
+
+    // Minimum scales with priority and surge, but is at least $0.005
+    const minPriceRaw = mulBpsCeil(toUsdcRaw(env.MIN_PRICE_USDC), priorityBps, surgeBps);
+
+    return computePrice({
+      gasUnits,
+      gasPrice,
+      croUsdPrice: toCroPrice(croUsdPrice),
+      markupBps: toBps(env.MARKUP_PERCENTAGE / 100),
+      priorityBps,
+      surgeBps,
+      minPriceRaw: minPriceRaw > MIN_PRICE_FLOOR_RAW ? minPriceRaw : MIN_PRICE_FLOOR_RAW,
+      maxPriceRaw: toUsdcRaw(PRICING.MAX_PRICE_USDC),
+    });
+  }
+
   /**
    * Get quotes for all priority tiers
    */
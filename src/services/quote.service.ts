@@ -0,0 +1,162 @@
+import { TypedDataDomain, Wallet } from "ethers";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import {
+  QUOTE_TYPES,
+  QuoteFields,
+  getQuoteDomain,
+  hashQuote,
+  isQuoteExpired,
+} from "../utils/quote.js";
+import { walletService } from "./wallet.service.js";
+import type { PriceQuote } from "./pricing.service.js";
+
+export interface SignedQuote extends QuoteFields {
+  signature: string;
+  signer: string;
+}
+
+export interface QuoteRedemption {
+  valid: boolean;
+  reason?: string;
+  quote?: SignedQuote;
+}
+
+interface StoredQuote {
+  quote: SignedQuote;
+  // "reserved" while a paid request is using it, so it can't be redeemed twice
+  status: "open" | "reserved" | "redeemed";
+  valueCost: bigint; // Part of the price paying for CRO value (not signed)
+}
+
+/**
+ * Issues EIP-712 signed quotes bound to a request hash and holds them until
+ * they are redeemed or expire. A paid request that names a quote is charged
+ * the quoted price, however the gas or CRO price has moved since.
+ */
+export class QuoteService {
+  private signer: Wallet;
+  private domain: TypedDataDomain;
+  private quotes: Map<string, StoredQuote> = new Map();
+  private cleanupInterval = 60000; // 1 minute
+
+  constructor() {
+    this.signer = env.QUOTE_SIGNER_PRIVATE_KEY
+      ? new Wallet(env.QUOTE_SIGNER_PRIVATE_KEY)
+      : walletService.wallet;
+    this.domain = getQuoteDomain(env.CHAIN_ID);
+
+    setInterval(() => this.pruneExpired(), this.cleanupInterval);
+
+    logger.info("Quote service initialized", { signer: this.signer.address });
+  }
+
+  /**
+   * Domain, types and signer for verifying quotes offline
+   */
+  getVerificationInfo() {
+    return {
+      domain: this.domain,
+      types: QUOTE_TYPES,
+      signer: this.signer.address,
+    };
+  }
+
+  /**
+   * Sign and store a quote for one request (or batch) hash.
+   * `price` overrides the quote's final price, e.g. after a batch discount.
+   */
+  issue(requestHash: string, priceQuote: PriceQuote, price: bigint = priceQuote.finalPriceRaw): SignedQuote {
+    const fields: QuoteFields = {
+      quoteId: priceQuote.nonce,
+      requestHash,
+      price: price.toString(),
+      gas: priceQuote.gasEstimate.toString(),
+      gasPrice: priceQuote.gasPrice.toString(),
+      priority: priceQuote.priority,
+      validUntil: Math.floor(priceQuote.validUntil.getTime() / 1000),
+    };
+
+    const quote: SignedQuote = {
+      ...fields,
+      signature: this.signer.signingKey.sign(hashQuote(this.domain, fields)).serialized,
+      signer: this.signer.address,
+    };
+
+    this.quotes.set(quote.quoteId.toLowerCase(), { quote, status: "open", valueCost: priceQuote.valueCostRaw });
+    return quote;
+  }
+
+  getQuote(quoteId: string): SignedQuote | undefined {
+    return this.quotes.get(quoteId.toLowerCase())?.quote;
+  }
+
+  /**
+   * USDC in a quote's price that pays for CRO value
+   */
+  getValueCost(quoteId: string): bigint {
+    return this.quotes.get(quoteId.toLowerCase())?.valueCost ?? 0n;
+  }
+
+  /**
+   * Whether a quote can be redeemed for this request, without reserving it
+   */
+  check(quoteId: string, requestHash: string): QuoteRedemption {
+    const stored = this.quotes.get(quoteId.toLowerCase());
+    if (!stored) {
+      return { valid: false, reason: "Unknown quote" };
+    }
+
+    const { quote } = stored;
+    if (quote.requestHash.toLowerCase() !== requestHash.toLowerCase()) {
+      return { valid: false, reason: "Quote was issued for a different request" };
+    }
+    if (isQuoteExpired(quote, Math.floor(Date.now() / 1000))) {
+      return { valid: false, reason: "Quote expired" };
+    }
+    if (stored.status !== "open") {
+      return { valid: false, reason: "Quote already redeemed" };
+    }
+
+    return { valid: true, quote };
+  }
+
+  /**
+   * Reserve a quote for a paid request. Call `complete` once the payment is
+   * taken, or `release` if it was not, so the agent can retry.
+   */
+  reserve(quoteId: string, requestHash: string): QuoteRedemption {
+    const redemption = this.check(quoteId, requestHash);
+    if (redemption.valid) {
+      this.quotes.get(quoteId.toLowerCase())!.status = "reserved";
+    }
+    return redemption;
+  }
+
+  complete(quoteId: string): void {
+    const stored = this.quotes.get(quoteId.toLowerCase());
+    if (stored) {
+      stored.status = "redeemed";
+      logger.debug("Quote redeemed", { quoteId });
+    }
+  }
+
+  release(quoteId: string): void {
+    const stored = this.quotes.get(quoteId.toLowerCase());
+    if (stored?.status === "reserved") {
+      stored.status = "open";
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [id, stored] of this.quotes) {
+      if (isQuoteExpired(stored.quote, now)) {
+        this.quotes.delete(id);
+      }
+    }
+  }
+}
+
+// Singleton
+export const quoteService = new QuoteService();
@@ -8,6 +8,8 @@
 import { ethers, parseUnits, formatEther, formatUnits } from "ethers";
 import { env } from "../config/env.js";
 import { walletService } from "./wallet.service.js";
+import { priceOracle } from "./price-oracle.service.js";
+import { nonceService } from "./nonce.service.js";
 import { CRONOS_TESTNET, CRONOS_MAINNET, ERC20_ABI } from "../config/constants.js";
 import { logger } from "../utils/logger.js";
 
@@ -87,7 +89,7 @@ class RebalanceService {
 
       // Calculate how much USDC to swap to reach target CRO
       const croNeeded = TARGET_CRO_BALANCE - croBalance;
-      const croPrice = await this.getCroPrice();
+      const croPrice = priceOracle.getPrice(); // Throws (skipping this round) if stale
       const usdcToSwap = Math.min(
         croNeeded * croPrice * 1.1, // Add 10% buffer for slippage
         usdcBalance * 0.5 // Max 50% of USDC balance
@@ -106,29 +108,6 @@ class RebalanceService {
     }
   }
 
-  /**
-   * Get current CRO price in USDC
-   */
-  private async getCroPrice(): Promise<number> {
-    try {
-      const routerContract = new ethers.Contract(
-        this.network.vvsRouter,
-        VVS_ROUTER_ABI,
-        walletService.rpcProvider
-      );
-
-      const path = [this.network.wcro, env.USDC_ADDRESS];
-      const amounts = await routerContract.getAmountsOut(
-        parseUnits("1", 18), // 1 CRO
-        path
-      );
-
-      return parseFloat(formatUnits(amounts[1], 6));
-    } catch {
-      return 0.10; // Fallback price
-    }
-  }
-
   /**
    * Execute USDC → CRO swap on VVS Finance
    */
@@ -150,9 +129,8 @@ class RebalanceService {
       const allowance = await usdcContract.allowance(wallet.address, this.network.vvsRouter);
       if (allowance < swapAmount) {
         logger.info("Approving USDC for VVS Router...");
-        const approveTx = await usdcContract.approve(
-          this.network.vvsRouter,
-          ethers.MaxUint256
+        const approveTx = await nonceService.send(wallet, (nonce) =>
+          usdcContract.approve(this.network.vvsRouter, ethers.MaxUint256, { nonce })
         );
         await approveTx.wait();
         logger.info("USDC approved");
@@ -172,13 +150,14 @@ class RebalanceService {
 
       // Execute swap
       const deadline = Math.floor(Date.now() / 1000) + 300; // 5 minutes
-      const swapTx = await routerContract.swapExactTokensForETH(
+      const swapTx = await nonceService.send(wallet, (nonce) => routerContract.swapExactTokensForETH(
         swapAmount,
         minOutput,
         path,
         wallet.address,
-        deadline
-      );
+        deadline,
+        { nonce }
+      ));
 
       logger.info("Swap transaction sent", { txHash: swapTx.hash });
       const receipt = await swapTx.wait();
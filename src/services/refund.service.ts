@@ -0,0 +1,417 @@
+import { readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { Contract, Wallet } from "ethers";
+import { env } from "../config/env.js";
+import { ERC20_ABI } from "../config/constants.js";
+import { logger } from "../utils/logger.js";
+import {
+  RefundFailureClass,
+  RefundRule,
+  computeRefundAmount,
+  formatRefundRule,
+  isRefundOwed,
+  parseRefundRule,
+} from "../utils/refund-policy.js";
+import { walletService } from "./wallet.service.js";
+import { nonceService } from "./nonce.service.js";
+
+export type { RefundFailureClass } from "../utils/refund-policy.js";
+
+const MAX_RECORDS = 1000;
+const MAX_OWED = 1000; // Past this, the oldest owed refunds are abandoned
+const MAX_ATTEMPTS = 5; // Transfers per refund before it is abandoned
+const RETRY_INTERVAL_MS = 60000;
+
+// Failure refunds follow the policy; "upto_remainder" returns the unused part of an upto payment
+export type RefundKind = RefundFailureClass | "upto_remainder";
+
+export interface RefundRecord {
+  id: string;
+  kind: RefundKind;
+  rule: string;
+  payer: string;
+  paidAmount: string;    // USDC base units the rule was applied to
+  excessAmount?: string; // USDC base units returned regardless of the rule (upto remainder)
+  valueAmount?: string;  // USDC base units paid for CRO value that was never sent, returned in full
+  refundAmount: string;  // USDC base units sent back
+  paymentTxHash: string;
+  relayTxHash?: string;
+  reason?: string;
+  status: "pending" | "sent" | "confirmed" | "failed" | "skipped" | "abandoned";
+  attempts: number;      // Transfers sent so far
+  refundTxHash?: string;
+  error?: string;
+  createdAt: Date;
+}
+
+export interface RefundParams {
+  failureClass: RefundFailureClass;
+  payer: string;
+  paidAmount: bigint;
+  excessAmount?: bigint;
+  valueAmount?: bigint;
+  paymentTxHash: string;
+  relayTxHash?: string;
+  reason?: string;
+}
+
+export type RemainderRefundParams = Omit<RefundParams, "failureClass" | "excessAmount" | "valueAmount"> & {
+  excessAmount: bigint;
+};
+
+/**
+ * Refunds agents whose payment was collected but whose relay failed.
+ * Rules are configured per failure class; refunds are sent in USDC from
+ * the receiving wallet and every attempt is recorded. Refunds still owed
+ * (not confirmed) are saved to REFUND_LEDGER_PATH, reloaded on startup and
+ * resent every RETRY_INTERVAL_MS until confirmed or abandoned; of the rest,
+ * only the most recent MAX_RECORDS are kept.
+ */
+export class RefundService {
+  private rules: Record<RefundFailureClass, RefundRule>;
+  private refundWallet: Wallet | null = null;
+  private refunds: Map<string, RefundRecord> = new Map();
+  private sending = new Set<string>(); // Refund ids with a transfer being broadcast
+  private retryId: NodeJS.Timeout | null = null;
+  private retrying = false;
+  private saving = false;
+  private saveQueued = false;
+
+  constructor() {
+    this.rules = {
+      forwarder_revert: parseRefundRule(env.REFUND_RULE_FORWARDER_REVERT),
+      inner_call_revert: parseRefundRule(env.REFUND_RULE_INNER_CALL_REVERT),
+      deadline_expired: parseRefundRule(env.REFUND_RULE_DEADLINE_EXPIRED),
+      batch_item_failed: parseRefundRule(env.REFUND_RULE_BATCH_ITEM_FAILED),
+    };
+
+    // Refunds come out of RECEIVING_WALLET, so we need its key
+    if (env.REFUND_WALLET_PRIVATE_KEY) {
+      const wallet = new Wallet(env.REFUND_WALLET_PRIVATE_KEY, walletService.rpcProvider);
+      if (wallet.address.toLowerCase() === env.RECEIVING_WALLET.toLowerCase()) {
+        this.refundWallet = wallet;
+      } else {
+        logger.error("REFUND_WALLET_PRIVATE_KEY does not match RECEIVING_WALLET, refunds disabled", {
+          refundWallet: wallet.address,
+          receivingWallet: env.RECEIVING_WALLET,
+        });
+      }
+    } else if (walletService.address.toLowerCase() === env.RECEIVING_WALLET.toLowerCase()) {
+      this.refundWallet = walletService.wallet;
+    } else {
+      logger.warn("No key for RECEIVING_WALLET, refunds will be recorded but not sent");
+    }
+
+    this.loadOwed();
+
+    logger.info("Refund service initialized", {
+      refundWallet: this.refundWallet?.address ?? null,
+      rules: this.getRules(),
+      owed: this.getOwed().length,
+    });
+  }
+
+  /**
+   * Configured rule per failure class
+   */
+  getRules(): Record<RefundFailureClass, string> {
+    return {
+      forwarder_revert: formatRefundRule(this.rules.forwarder_revert),
+      inner_call_revert: formatRefundRule(this.rules.inner_call_revert),
+      deadline_expired: formatRefundRule(this.rules.deadline_expired),
+      batch_item_failed: formatRefundRule(this.rules.batch_item_failed),
+    };
+  }
+
+  /**
+   * Classify a forwarder.execute failure. The forwarder reports an expired
+   * deadline as a generic verify failure, so check the deadline ourselves.
+   */
+  classifyExecutionError(deadline: string): RefundFailureClass {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    return BigInt(deadline) <= now ? "deadline_expired" : "forwarder_revert";
+  }
+
+  get canSendRefunds(): boolean {
+    return this.refundWallet !== null;
+  }
+
+  /**
+   * Apply the rule for this failure class and send the refund, plus any
+   * excess (the unused part of an upto payment) and unsent value cost on top.
+   * Never throws: failures are recorded on the returned record.
+   */
+  async refund(params: RefundParams): Promise<RefundRecord> {
+    const rule = this.rules[params.failureClass];
+    const excess = (params.excessAmount ?? 0n) + (params.valueAmount ?? 0n);
+
+    return this.send({
+      id: crypto.randomUUID(),
+      kind: params.failureClass,
+      rule: formatRefundRule(rule),
+      payer: params.payer,
+      paidAmount: params.paidAmount.toString(),
+      excessAmount: params.excessAmount?.toString(),
+      valueAmount: params.valueAmount?.toString(),
+      refundAmount: (computeRefundAmount(rule, params.paidAmount) + excess).toString(),
+      paymentTxHash: params.paymentTxHash,
+      relayTxHash: params.relayTxHash,
+      reason: params.reason,
+      status: "pending",
+      attempts: 0,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Return the part of an upto payment that the relay did not use
+   */
+  async refundRemainder(params: RemainderRefundParams): Promise<RefundRecord> {
+    return this.send({
+      id: crypto.randomUUID(),
+      kind: "upto_remainder",
+      rule: "upto",
+      payer: params.payer,
+      paidAmount: params.paidAmount.toString(),
+      excessAmount: params.excessAmount.toString(),
+      refundAmount: params.excessAmount.toString(),
+      paymentTxHash: params.paymentTxHash,
+      relayTxHash: params.relayTxHash,
+      reason: params.reason,
+      status: "pending",
+      attempts: 0,
+      createdAt: new Date(),
+    });
+  }
+
+  private async send(record: RefundRecord): Promise<RefundRecord> {
+    this.store(record);
+
+    if (BigInt(record.refundAmount) === 0n) {
+      record.status = "skipped";
+      record.error = "Nothing to refund under rule";
+    } else if (!this.refundWallet) {
+      record.status = "skipped";
+      record.error = "No refund wallet configured";
+    } else {
+      await this.transfer(record, this.refundWallet);
+    }
+
+    const details = {
+      id: record.id,
+      kind: record.kind,
+      rule: record.rule,
+      payer: record.payer,
+      refundAmount: record.refundAmount,
+      status: record.status,
+      refundTxHash: record.refundTxHash,
+      error: record.error,
+    };
+    if (record.status === "failed") {
+      logger.error("Refund failed", details);
+    } else {
+      logger.info("Refund processed", details);
+    }
+
+    this.saveOwed();
+    return record;
+  }
+
+  /**
+   * Send the USDC for a refund. A failed or dropped transfer is picked up
+   * again by retryOwed.
+   */
+  private async transfer(record: RefundRecord, wallet: Wallet): Promise<void> {
+    this.sending.add(record.id);
+    record.attempts++;
+    try {
+      const usdc = new Contract(env.USDC_ADDRESS, ERC20_ABI, wallet);
+      const tx = await nonceService.send(wallet, (nonce) =>
+        usdc.transfer(record.payer, BigInt(record.refundAmount), { nonce })
+      );
+      record.status = "sent";
+      record.refundTxHash = tx.hash;
+      record.error = undefined;
+
+      tx.wait()
+        .then((receipt: { status: number } | null) => {
+          record.status = receipt?.status === 1 ? "confirmed" : "failed";
+        })
+        .catch((error: unknown) => {
+          record.status = "failed";
+          record.error = error instanceof Error ? error.message : String(error);
+        })
+        .finally(() => this.saveOwed());
+    } catch (error) {
+      record.status = "failed";
+      record.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.sending.delete(record.id);
+    }
+  }
+
+  /**
+   * Retry owed refunds every RETRY_INTERVAL_MS
+   */
+  startRetries(): void {
+    if (this.retryId) return;
+    this.retryId = setInterval(() => this.retryOwed(), RETRY_INTERVAL_MS);
+  }
+
+  stopRetries(): void {
+    if (this.retryId) {
+      clearInterval(this.retryId);
+      this.retryId = null;
+    }
+  }
+
+  /**
+   * Confirm sent refunds from their receipts and resend the ones that
+   * failed, were dropped or were never sent. One still waiting to be mined
+   * is left alone, so nothing is refunded twice. After MAX_ATTEMPTS
+   * transfers a refund is abandoned.
+   */
+  async retryOwed(): Promise<void> {
+    const wallet = this.refundWallet;
+    if (this.retrying || !wallet) return;
+    this.retrying = true;
+
+    try {
+      const provider = walletService.rpcProvider;
+      for (const record of this.getOwed()) {
+        if (this.sending.has(record.id)) continue;
+        try {
+          if (record.refundTxHash) {
+            const receipt = await provider.getTransactionReceipt(record.refundTxHash);
+            if (receipt?.status === 1) {
+              record.status = "confirmed";
+              continue;
+            }
+            if (!receipt && (await provider.getTransaction(record.refundTxHash))) continue;
+          }
+          if (record.attempts >= MAX_ATTEMPTS) {
+            this.abandon(record, `Not confirmed after ${record.attempts} transfers`);
+            continue;
+          }
+          await this.transfer(record, wallet);
+          logger.warn("Refund resent", {
+            id: record.id,
+            payer: record.payer,
+            refundAmount: record.refundAmount,
+            status: record.status,
+            refundTxHash: record.refundTxHash,
+            attempts: record.attempts,
+          });
+        } catch (error) {
+          logger.error("Refund retry failed", { id: record.id, error });
+        }
+      }
+    } finally {
+      this.retrying = false;
+      this.saveOwed();
+    }
+  }
+
+  /**
+   * Stop trying to send a refund. It is logged in full so it can be paid by hand.
+   */
+  private abandon(record: RefundRecord, reason: string): void {
+    record.status = "abandoned";
+    record.error = reason;
+    logger.error("Refund abandoned, send it manually", { ...record });
+  }
+
+  private store(record: RefundRecord): void {
+    this.refunds.set(record.id, record);
+
+    // Past MAX_OWED, give up on the oldest owed refunds
+    const owed = this.getOwed().filter((r) => !this.sending.has(r.id));
+    for (const old of owed.slice(0, Math.max(0, owed.length - MAX_OWED))) {
+      this.abandon(old, `More than ${MAX_OWED} refunds owed`);
+    }
+
+    // Drop the oldest refunds that are no longer owed
+    for (const [id, old] of this.refunds) {
+      if (this.refunds.size <= MAX_RECORDS) break;
+      if (isRefundOwed(old)) continue;
+      this.refunds.delete(id);
+    }
+  }
+
+  /**
+   * Write the refunds still owed to the ledger file, one write at a time:
+   * changes made during a write are saved by one more write after it. If
+   * a write fails the owed refunds are logged in full, so they can be
+   * recovered from the logs.
+   */
+  private saveOwed(): void {
+    if (this.saving) {
+      this.saveQueued = true;
+      return;
+    }
+    this.saving = true;
+
+    const owed = this.getOwed();
+    const path = env.REFUND_LEDGER_PATH;
+    mkdir(dirname(path), { recursive: true })
+      .then(() => writeFile(`${path}.tmp`, JSON.stringify(owed, null, 2)))
+      .then(() => rename(`${path}.tmp`, path))
+      .catch((error: unknown) => {
+        logger.error("Failed to save owed refunds", { path, error, owed });
+      })
+      .finally(() => {
+        this.saving = false;
+        if (this.saveQueued) {
+          this.saveQueued = false;
+          this.saveOwed();
+        }
+      });
+  }
+
+  private loadOwed(): void {
+    const path = env.REFUND_LEDGER_PATH;
+    let owed: RefundRecord[];
+    try {
+      owed = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error("Failed to load owed refunds", { path, error });
+      }
+      return;
+    }
+
+    for (const record of owed) {
+      this.refunds.set(record.id, { ...record, createdAt: new Date(record.createdAt) });
+    }
+    if (owed.length > 0) {
+      logger.warn("Refunds still owed from a previous run", {
+        path,
+        refunds: owed.map(({ id, payer, refundAmount, status }) => ({ id, payer, refundAmount, status })),
+      });
+    }
+  }
+
+  /**
+   * Refunds not yet confirmed, oldest first
+   */
+  getOwed(): RefundRecord[] {
+    return Array.from(this.refunds.values()).filter(isRefundOwed);
+  }
+
+  getRefund(id: string): RefundRecord | undefined {
+    return this.refunds.get(id);
+  }
+
+  /**
+   * Most recent refunds first, optionally for one payer
+   */
+  getRefunds(payer?: string, limit: number = 50): RefundRecord[] {
+    const all = Array.from(this.refunds.values())
+      .filter((r) => !payer || r.payer.toLowerCase() === payer.toLowerCase());
+    return all.reverse().slice(0, limit);
+  }
+}
+
+// Singleton
+export const refundService = new RefundService();
@@ -2,27 +2,78 @@
  * Relayer Pool Service
  *
  * Manages multiple relayer wallets for horizontal scaling.
- * Each relayer has independent nonce tracking and balance monitoring.
- * Supports 1000+ concurrent agents.
+ * Each relayer has its own nonce manager (nonce.service.ts) and health
+ * (utils/relayer-health.ts): relayers low on CRO or failing relays are taken
+ * out of rotation, and topped up from the treasury when one is configured.
+ * Which active relayer gets a transaction is up to RELAYER_STRATEGY
+ * (utils/relayer-strategies.ts). Relayers come from private keys or are
+ * derived from RELAYER_MNEMONIC, and can be added or retired at runtime
+ * (/admin/relayers). Each relayer has up to RELAYER_MAX_IN_FLIGHT
+ * transactions in flight; beyond that, requests queue by priority.
  */
 
-import { ethers, Wallet, JsonRpcProvider } from "ethers";
+import { ethers, Wallet, JsonRpcProvider, formatEther, parseEther } from "ethers";
 import { env } from "../config/env.js";
 import { logger } from "../utils/logger.js";
+import { GasStationError } from "../utils/errors.js";
+import { PriorityQueue } from "../utils/priority-queue.js";
+import { RelayerHealth, RelayerHealthPolicy, RelayerStatus } from "../utils/relayer-health.js";
+import { RelayerCandidate, createRelayerStrategy } from "../utils/relayer-strategies.js";
+import { NonceManager, nonceService } from "./nonce.service.js";
+import { treasuryService } from "./treasury.service.js";
+import { deriveRelayerWallet } from "./wallet.service.js";
+import type { Priority } from "./pricing.service.js";
+
+const QUEUE_TIMEOUT_MS = 60000;
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+const DRAIN_POLL_MS = 5000;
+
+const HEALTH_POLICY: RelayerHealthPolicy = {
+  minBalanceWei: parseEther(env.RELAYER_MIN_CRO.toString()),
+  maxFailures: env.RELAYER_MAX_FAILURES,
+  cooldownMs: env.RELAYER_QUARANTINE_MS,
+};
+
+// "reverted": mined with status 0, i.e. the agent's call failed, not the relayer
+export type RelayOutcome = "ok" | "failed" | "reverted";
+
+// Waiting requests are served fast first, then normal, then slow
+const QUEUE_RANK: Record<Priority, number> = { fast: 0, normal: 1, slow: 2 };
 
 interface RelayerState {
   wallet: Wallet;
   address: string;
   pendingTxCount: number;
   lastUsed: number;
-  nonce: number;
+  nonces: NonceManager;
+  health: RelayerHealth;
+  relays: number; // Transactions handed to this relayer since startup
+  reverts: number; // Of those, mined but reverted by the agent's call
+  derivationIndex: number | null; // Index under RELAYER_DERIVATION_PATH, if derived
+}
+
+export interface RetiredRelayer {
+  address: string;
+  sweptCro: string;
+  sweepTxHash: string | null;
+  retiredAt: string;
+}
+
+interface Waiter {
+  agent?: string;
+  grant: (relayer: RelayerState) => void;
 }
 
 class RelayerPoolService {
   private relayers: RelayerState[] = [];
   private provider: JsonRpcProvider;
-  private currentIndex = 0;
+  private strategy = createRelayerStrategy(env.RELAYER_STRATEGY);
   private initialized = false;
+  private healthCheckId: NodeJS.Timeout | null = null;
+  private checkingHealth = false;
+  private waiters = new PriorityQueue<Waiter>();
+  private nextDerivationIndex = 0;
+  private retired: RetiredRelayer[] = [];
 
   constructor() {
     this.provider = new JsonRpcProvider(env.CRONOS_RPC_URL);
@@ -34,37 +85,169 @@ class RelayerPoolService {
   async initialize(): Promise<void> {
     if (this.initialized) return;
 
-    // Parse relayer keys (comma-separated or single key)
-    const keys = this.parseRelayerKeys();
+    if (env.RELAYER_MNEMONIC) {
+      // Derived relayers: RELAYER_DERIVATION_PATH/0 .. /RELAYER_COUNT-1
+      for (let i = 0; i < env.RELAYER_COUNT; i++) {
+        await this.add(deriveRelayerWallet(i, this.provider), i);
+      }
+      this.nextDerivationIndex = env.RELAYER_COUNT;
+    } else {
+      // Parse relayer keys (comma-separated or single key)
+      const keys = this.parseRelayerKeys();
 
-    if (keys.length === 0) {
-      throw new Error("No relayer private keys configured");
+      if (keys.length === 0) {
+        throw new Error("No relayer private keys configured");
+      }
+
+      for (const key of keys) {
+        await this.add(new Wallet(key, this.provider), null);
+      }
     }
 
-    // Initialize each relayer
-    for (const key of keys) {
-      const wallet = new Wallet(key, this.provider);
-      const nonce = await this.provider.getTransactionCount(wallet.address, "pending");
+    this.initialized = true;
+    logger.info("Relayer pool initialized", {
+      relayerCount: this.relayers.length,
+      strategy: this.strategy.name,
+      addresses: this.relayers.map((r) => r.address),
+    });
+  }
 
-      this.relayers.push({
-        wallet,
+  /**
+   * Add a relayer at runtime, from a private key or from RELAYER_MNEMONIC
+   * (at `index`, or the next index not used yet). `canSubmit` vets the
+   * address first (e.g. the Settlement contract's allow-list). It is in
+   * rotation as soon as its nonce is known; the next health check reads
+   * its balance.
+   */
+  async addRelayer(
+    source: { privateKey: string } | { index?: number },
+    canSubmit?: (address: string) => Promise<boolean>
+  ): Promise<RelayerState> {
+    let wallet: Wallet;
+    let index: number | null = null;
+    if ("privateKey" in source) {
+      wallet = new Wallet(source.privateKey, this.provider);
+    } else {
+      if (!env.RELAYER_MNEMONIC) {
+        throw new GasStationError("RELAYER_MNEMONIC is not configured", "NO_MNEMONIC", 400);
+      }
+      index = source.index ?? this.nextDerivationIndex;
+      wallet = deriveRelayerWallet(index, this.provider);
+    }
+
+    if (this.find(wallet.address)) {
+      throw new GasStationError("Relayer is already in the pool", "RELAYER_EXISTS", 409, {
         address: wallet.address,
-        pendingTxCount: 0,
-        lastUsed: 0,
-        nonce,
       });
-
-      logger.info("Relayer added to pool", {
+    }
+    if (canSubmit && !(await canSubmit(wallet.address))) {
+      throw new GasStationError("Relayer is not allowed to submit transactions", "RELAYER_NOT_ALLOWED", 409, {
         address: wallet.address,
-        nonce,
       });
     }
 
-    this.initialized = true;
-    logger.info("Relayer pool initialized", {
-      relayerCount: this.relayers.length,
-      addresses: this.relayers.map((r) => r.address),
+    const relayer = await this.add(wallet, index);
+    if (index !== null) {
+      this.nextDerivationIndex = Math.max(this.nextDerivationIndex, index + 1);
+    }
+    this.checkHealth();
+    this.dispatch();
+    return relayer;
+  }
+
+  /**
+   * Retire a relayer: it gets no new transactions, and once everything it
+   * sent is mined its CRO is swept to the treasury and it leaves the pool.
+   * Runs in the background; the relayer shows as draining until then.
+   */
+  retireRelayer(address: string): RelayerState {
+    const relayer = this.find(address);
+    if (!relayer) {
+      throw new GasStationError("Relayer not found", "NOT_FOUND", 404);
+    }
+    if (relayer.health.retiring) {
+      throw new GasStationError("Relayer is already retiring", "RELAYER_RETIRING", 409);
+    }
+    if (relayer === this.getPrimaryRelayer()) {
+      // Payments in "receive" mode go to the primary relayer
+      throw new GasStationError("The primary relayer can't be retired", "PRIMARY_RELAYER", 409);
+    }
+    if (!treasuryService.isEnabled) {
+      throw new GasStationError("TREASURY_PRIVATE_KEY is needed to sweep a retired relayer", "NO_TREASURY", 400);
+    }
+
+    relayer.health.retire();
+    this.updateHealth(relayer);
+
+    this.drainAndRemove(relayer).catch((error) => {
+      logger.error("Relayer retirement failed", { address: relayer.address, error });
     });
+    return relayer;
+  }
+
+  /**
+   * Relayers that have been retired and removed
+   */
+  getRetired(): RetiredRelayer[] {
+    return this.retired;
+  }
+
+  private async add(wallet: Wallet, derivationIndex: number | null): Promise<RelayerState> {
+    const nonces = nonceService.forWallet(wallet);
+    await nonces.resync();
+
+    const relayer: RelayerState = {
+      wallet,
+      address: wallet.address,
+      pendingTxCount: 0,
+      lastUsed: 0,
+      nonces,
+      health: new RelayerHealth(HEALTH_POLICY),
+      relays: 0,
+      reverts: 0,
+      derivationIndex,
+    };
+    this.relayers.push(relayer);
+
+    logger.info("Relayer added to pool", {
+      address: wallet.address,
+      derivationIndex,
+      nonce: nonces.getStatus().next,
+    });
+    return relayer;
+  }
+
+  private find(address: string): RelayerState | undefined {
+    return this.relayers.find((r) => r.address.toLowerCase() === address.toLowerCase());
+  }
+
+  private async drainAndRemove(relayer: RelayerState): Promise<void> {
+    logger.info("Retiring relayer", { address: relayer.address, pendingTxCount: relayer.pendingTxCount });
+
+    // Wait out relays in flight, then anything it sent (speed-ups, cancellations) still unmined
+    while (!(await this.isDrained(relayer))) {
+      await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_MS));
+    }
+
+    const { amount, txHash } = await treasuryService.sweep(relayer.wallet);
+
+    this.relayers = this.relayers.filter((r) => r !== relayer);
+    nonceService.forget(relayer.address);
+    this.retired.push({
+      address: relayer.address,
+      sweptCro: formatEther(amount),
+      sweepTxHash: txHash,
+      retiredAt: new Date().toISOString(),
+    });
+    logger.info("Relayer retired", { address: relayer.address, sweptCro: formatEther(amount), txHash });
+  }
+
+  private async isDrained(relayer: RelayerState): Promise<boolean> {
+    if (relayer.pendingTxCount > 0) return false;
+    const { next, reserved } = relayer.nonces.getStatus();
+    if (reserved.length > 0) return false;
+    const mined = await this.provider.getTransactionCount(relayer.address, "latest");
+    return next === null || mined >= next;
   }
 
   /**
@@ -89,46 +272,78 @@ class RelayerPoolService {
   }
 
   /**
-   * Get the next available relayer (least-busy strategy)
+   * Reserve a relayer for one transaction, chosen by the configured
+   * strategy. `agent` (the signer) lets sticky_agent keep an agent on one
+   * relayer. When the chosen relayer is busy the request waits in a queue
+   * ordered by priority. Release with markComplete.
    */
-  getRelayer(): RelayerState {
+  acquireRelayer(priority: Priority = "normal", agent?: string): Promise<RelayerState> {
     if (!this.initialized || this.relayers.length === 0) {
-      throw new Error("Relayer pool not initialized");
+      return Promise.reject(new Error("Relayer pool not initialized"));
     }
-
-    // Find relayer with least pending transactions
-    let bestRelayer = this.relayers[0];
-    for (const relayer of this.relayers) {
-      if (relayer.pendingTxCount < bestRelayer.pendingTxCount) {
-        bestRelayer = relayer;
-      }
+    if (!this.relayers.some((r) => r.health.status === "active")) {
+      return Promise.reject(new Error("No healthy relayer available"));
     }
 
-    return bestRelayer;
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        agent,
+        grant: (relayer) => {
+          clearTimeout(timer);
+          resolve(relayer);
+        },
+      };
+      const timer = setTimeout(() => {
+        if (this.waiters.remove(waiter)) {
+          reject(new Error(`No relayer available after ${QUEUE_TIMEOUT_MS / 1000}s`));
+        }
+      }, QUEUE_TIMEOUT_MS);
+
+      // Queued behind anyone already waiting, then served right away if possible
+      this.waiters.push(waiter, QUEUE_RANK[priority]);
+      this.dispatch();
+      if (this.waiters.includes(waiter)) {
+        logger.debug("Waiting for relayer", { priority, queued: this.waiters.length });
+      }
+    });
   }
 
   /**
-   * Get a relayer using round-robin (for even distribution)
+   * The free relayer the strategy picks for `agent`, if any
    */
-  getRelayerRoundRobin(): RelayerState {
-    if (!this.initialized || this.relayers.length === 0) {
-      throw new Error("Relayer pool not initialized");
-    }
+  private pick(agent?: string): RelayerState | null {
+    const candidates = this.relayers
+      .filter((r) => r.health.status === "active")
+      .map((r): RelayerCandidate & { relayer: RelayerState } => ({
+        address: r.address,
+        free: r.pendingTxCount < env.RELAYER_MAX_IN_FLIGHT,
+        pendingTxCount: r.pendingTxCount,
+        lastUsed: r.lastUsed,
+        balanceWei: r.health.balanceWei,
+        relayer: r,
+      }));
+    const chosen = this.strategy.select(candidates, agent);
+    return chosen?.free ? chosen.relayer : null;
+  }
 
-    const relayer = this.relayers[this.currentIndex];
-    this.currentIndex = (this.currentIndex + 1) % this.relayers.length;
+  private reserve(relayer: RelayerState): RelayerState {
+    relayer.pendingTxCount++;
+    relayer.lastUsed = Date.now();
+    relayer.relays++;
     return relayer;
   }
 
   /**
-   * Get next nonce for a relayer and increment
+   * Hand free relayers to waiters in priority order. A waiter whose relayer
+   * is busy (sticky_agent) doesn't hold up the ones behind it.
    */
-  async getAndIncrementNonce(relayer: RelayerState): Promise<number> {
-    const nonce = relayer.nonce;
-    relayer.nonce++;
-    relayer.pendingTxCount++;
-    relayer.lastUsed = Date.now();
-    return nonce;
+  private dispatch(): void {
+    for (const waiter of this.waiters.items()) {
+      const relayer = this.pick(waiter.agent);
+      if (!relayer) continue;
+      this.waiters.remove(waiter);
+      waiter.grant(this.reserve(relayer));
+    }
   }
 
   /**
@@ -136,14 +351,80 @@ class RelayerPoolService {
    */
   markComplete(relayer: RelayerState): void {
     relayer.pendingTxCount = Math.max(0, relayer.pendingTxCount - 1);
+    this.updateHealth(relayer); // A draining relayer is quarantined once idle
+    this.dispatch();
   }
 
   /**
-   * Sync nonce from chain (for recovery after errors)
+   * Record how a relay sent by `address` ended. Enough failures in a row
+   * quarantine the relayer; reverts are only counted, since the relayer
+   * did its job.
    */
-  async syncNonce(relayer: RelayerState): Promise<void> {
-    relayer.nonce = await this.provider.getTransactionCount(relayer.address, "pending");
-    logger.debug("Nonce synced", { address: relayer.address, nonce: relayer.nonce });
+  recordOutcome(address: string, outcome: RelayOutcome): void {
+    const relayer = this.relayers.find((r) => r.address.toLowerCase() === address.toLowerCase());
+    if (!relayer) return;
+    if (outcome === "reverted") relayer.reverts++;
+    relayer.health.recordOutcome(outcome !== "failed", Date.now());
+    this.updateHealth(relayer);
+  }
+
+  /**
+   * Start the periodic balance check (and treasury top-ups)
+   */
+  startHealthChecks(): void {
+    if (this.healthCheckId) return;
+    this.checkHealth();
+    this.healthCheckId = setInterval(() => this.checkHealth(), HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthCheckId) {
+      clearInterval(this.healthCheckId);
+      this.healthCheckId = null;
+    }
+  }
+
+  /**
+   * Read every relayer's balance, top up the low ones and re-evaluate
+   * which relayers are in rotation
+   */
+  async checkHealth(): Promise<void> {
+    if (this.checkingHealth) return;
+    this.checkingHealth = true;
+
+    try {
+      for (const relayer of this.relayers) {
+        try {
+          relayer.health.setBalance(await this.provider.getBalance(relayer.address));
+          this.updateHealth(relayer);
+          if (relayer.health.retiring) continue; // Its balance is about to be swept
+
+          const toppedUp = await treasuryService.topUp(relayer.address, relayer.health.balanceWei!);
+          if (toppedUp > 0n) {
+            relayer.health.setBalance(relayer.health.balanceWei! + toppedUp);
+            this.updateHealth(relayer);
+          }
+        } catch (error) {
+          logger.error("Relayer health check failed", { address: relayer.address, error });
+        }
+      }
+    } finally {
+      this.checkingHealth = false;
+    }
+    this.dispatch(); // Reactivated relayers can serve waiting requests
+  }
+
+  private updateHealth(relayer: RelayerState): void {
+    const previous = relayer.health.status;
+    if (!relayer.health.update(relayer.pendingTxCount, Date.now())) return;
+
+    const { status, reason } = relayer.health;
+    const details = { address: relayer.address, from: previous, to: status, reason };
+    if (status === "active") {
+      logger.info("Relayer back in rotation", details);
+    } else {
+      logger.warn("Relayer taken out of rotation", details);
+    }
   }
 
   /**
@@ -151,19 +432,52 @@ class RelayerPoolService {
    */
   getStats(): {
     totalRelayers: number;
+    queued: Record<Priority, number>;
+    activeRelayers: number;
+    strategy: { name: string } & Record<string, unknown>;
     relayers: Array<{
       address: string;
+      status: RelayerStatus;
+      reason: string | null;
+      balanceCro: string | null;
+      consecutiveFailures: number;
       pendingTxCount: number;
-      nonce: number;
+      relays: number;
+      reverts: number;
+      sharePercent: number | null;
+      derivationIndex: number | null;
+      nonce: number | null;
+      nonceHoles: number[];
     }>;
   } {
+    const byRank = this.waiters.countByRank();
+    const totalRelays = this.relayers.reduce((sum, r) => sum + r.relays, 0);
     return {
       totalRelayers: this.relayers.length,
-      relayers: this.relayers.map((r) => ({
-        address: r.address,
-        pendingTxCount: r.pendingTxCount,
-        nonce: r.nonce,
-      })),
+      activeRelayers: this.relayers.filter((r) => r.health.status === "active").length,
+      queued: {
+        fast: byRank.get(QUEUE_RANK.fast) ?? 0,
+        normal: byRank.get(QUEUE_RANK.normal) ?? 0,
+        slow: byRank.get(QUEUE_RANK.slow) ?? 0,
+      },
+      strategy: { name: this.strategy.name, ...this.strategy.getStatus() },
+      relayers: this.relayers.map((r) => {
+        const nonces = r.nonces.getStatus();
+        return {
+          address: r.address,
+          status: r.health.status,
+          reason: r.health.reason,
+          balanceCro: r.health.balanceWei !== null ? formatEther(r.health.balanceWei) : null,
+          consecutiveFailures: r.health.consecutiveFailures,
+          pendingTxCount: r.pendingTxCount,
+          relays: r.relays,
+          reverts: r.reverts,
+          sharePercent: totalRelays > 0 ? Math.round((r.relays / totalRelays) * 1000) / 10 : null,
+          derivationIndex: r.derivationIndex,
+          nonce: nonces.next,
+          nonceHoles: nonces.holes,
+        };
+      }),
     };
   }
 
@@ -174,6 +488,13 @@ class RelayerPoolService {
     return this.relayers.map((r) => r.address);
   }
 
+  /**
+   * Relayer in the pool with this address
+   */
+  getRelayer(address: string): RelayerState | undefined {
+    return this.find(address);
+  }
+
   /**
    * Get primary relayer (for backwards compatibility)
    */
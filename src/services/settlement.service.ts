@@ -0,0 +1,244 @@
+/**
+ * Atomic Settlement Service
+ *
+ * With PAYMENT_SETTLEMENT_MODE=atomic, the x402 payment and the forwarded
+ * meta-transaction run in one transaction through the Settlement contract
+ * (scripts/deploy-settlement.ts). If the call reverts, no payment is taken.
+ */
+
+import { Contract, Interface, TransactionReceipt } from "ethers";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { RelayNotExecutedError } from "../utils/errors.js";
+import { splitSignature } from "../utils/eip3009.js";
+import { relayerPool } from "./relayer-pool.service.js";
+import { facilitatorService } from "./facilitator.service.js";
+import { inclusionService } from "./inclusion.service.js";
+import type { Priority } from "./pricing.service.js";
+import type { X402Payment } from "./payment.service.js";
+import type { ExecuteResult, MetaTransaction, ForwardRequest } from "./forwarder.service.js";
+import SettlementABI from "../config/Settlement.abi.json" with { type: "json" };
+import ForwarderABI from "../config/Forwarder.abi.json" with { type: "json" };
+
+export interface BatchSettlementResult {
+  txHash: string;
+  relayer: string;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  inclusionMs: number;
+  bumps: number;
+  results: Array<{ success: boolean; result: string }>;
+}
+
+export class SettlementService {
+  private forwarderInterface = new Interface(ForwarderABI);
+
+  /**
+   * Atomic mode needs our relayers to submit, so it is off with a remote facilitator
+   */
+  get isEnabled(): boolean {
+    return env.PAYMENT_SETTLEMENT_MODE === "atomic" && !facilitatorService;
+  }
+
+  get address(): string {
+    if (!env.SETTLEMENT_ADDRESS) {
+      throw new Error("SETTLEMENT_ADDRESS is not configured");
+    }
+    return env.SETTLEMENT_ADDRESS;
+  }
+
+  /**
+   * Warn about pool relayers the contract does not allow to submit.
+   * Returns those relayers, or null if the contract could not be read.
+   */
+  async checkRelayers(addresses: string[]): Promise<string[] | null> {
+    const contract = new Contract(this.address, SettlementABI, relayerPool.getProvider());
+    const notAllowed: string[] = [];
+    for (const address of addresses) {
+      try {
+        if (!(await contract.relayers(address))) {
+          logger.warn("Relayer is not allowed by the Settlement contract", { relayer: address });
+          notAllowed.push(address);
+        }
+      } catch (error) {
+        logger.error("Could not read Settlement relayers", { error, settlement: this.address });
+        return null;
+      }
+    }
+    return notAllowed;
+  }
+
+  /**
+   * Collect the payment and execute one meta-transaction
+   */
+  async settleAndExecute(
+    payment: X402Payment,
+    request: ForwardRequest,
+    signature: string,
+    priority: Priority = "normal"
+  ): Promise<ExecuteResult> {
+    const { receipt, relayer, inclusionMs, bumps } = await this.send(
+      "settleAndExecute",
+      [this.toPaymentTuple(payment), this.toRequestTuple(request), signature, env.SETTLEMENT_REQUIRE_SUCCESS],
+      BigInt(request.value),
+      request.from,
+      priority,
+      Number(request.deadline)
+    );
+
+    const [executed] = this.parseExecuted(receipt);
+    return {
+      txHash: receipt.hash,
+      success: executed?.success ?? false,
+      result: executed?.result ?? "0x",
+      relayer,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.gasPrice,
+      inclusionMs,
+      bumps,
+    };
+  }
+
+  /**
+   * Collect one payment and execute a batch of meta-transactions
+   */
+  async settleAndExecuteBatch(
+    payment: X402Payment,
+    requests: MetaTransaction[],
+    priority: Priority = "normal"
+  ): Promise<BatchSettlementResult> {
+    const { receipt, relayer, inclusionMs, bumps } = await this.send(
+      "settleAndExecuteBatch",
+      [
+        this.toPaymentTuple(payment),
+        requests.map((r) => this.toRequestTuple(r.request)),
+        requests.map((r) => r.signature),
+        env.SETTLEMENT_REQUIRE_SUCCESS,
+      ],
+      requests.reduce((sum, r) => sum + BigInt(r.request.value), 0n),
+      payment.payload.authorization.from,
+      priority,
+      Math.min(...requests.map((r) => Number(r.request.deadline)))
+    );
+
+    return {
+      txHash: receipt.hash,
+      relayer,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.gasPrice,
+      inclusionMs,
+      bumps,
+      results: this.parseExecuted(receipt),
+    };
+  }
+
+  /**
+   * Collect a payment with nothing to execute (e.g. raw /relay, facilitator settle)
+   */
+  async settle(payment: X402Payment): Promise<string> {
+    const { receipt } = await this.send(
+      "settle",
+      [this.toPaymentTuple(payment)],
+      0n,
+      payment.payload.authorization.from
+    );
+    return receipt.hash;
+  }
+
+  private async send(
+    method: string,
+    args: unknown[],
+    value: bigint,
+    agent: string, // Payer or signer, for sticky relayer selection
+    priority: Priority = "normal",
+    deadline?: number // Earliest ForwardRequest deadline (unix seconds)
+  ): Promise<{ receipt: TransactionReceipt; relayer: string; inclusionMs: number; bumps: number }> {
+    const relayerState = await relayerPool.acquireRelayer(priority, agent).catch((error: unknown) => {
+      throw new RelayNotExecutedError(error instanceof Error ? error.message : String(error));
+    });
+    const contract = new Contract(this.address, SettlementABI, relayerState.wallet);
+
+    try {
+      // Estimation fails (and nothing is sent) if the settlement would revert
+      let gasEstimate: bigint;
+      try {
+        gasEstimate = await contract[method].estimateGas(...args, { value });
+      } catch (error) {
+        throw new RelayNotExecutedError(`Settlement would revert: ${this.describeRevert(error)}`);
+      }
+
+      const tx = await contract[method].populateTransaction(...args, {
+        value,
+        gasLimit: (gasEstimate * 120n) / 100n,
+      });
+      const { receipt, inclusionMs, bumps } = await inclusionService.send(relayerState.wallet, tx, priority, deadline);
+      logger.info("Settlement confirmed", {
+        method,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+      });
+
+      return { receipt, relayer: relayerState.address, inclusionMs, bumps };
+    } finally {
+      relayerPool.markComplete(relayerState);
+    }
+  }
+
+  /**
+   * Executed events emitted by the forwarder, in call order
+   */
+  private parseExecuted(receipt: TransactionReceipt): Array<{ success: boolean; result: string }> {
+    const executed: Array<{ success: boolean; result: string }> = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== env.FORWARDER_ADDRESS.toLowerCase()) continue;
+      try {
+        const parsed = this.forwarderInterface.parseLog(log);
+        if (parsed?.name === "Executed") {
+          executed.push({ success: parsed.args[2], result: parsed.args[3] });
+        }
+      } catch {
+        // Not a forwarder event
+      }
+    }
+    return executed;
+  }
+
+  private describeRevert(error: unknown): string {
+    const revert = (error as { revert?: { name: string; args: unknown[] } }).revert;
+    if (revert) {
+      return `${revert.name}(${revert.args.map(String).join(", ")})`;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private toPaymentTuple(payment: X402Payment) {
+    const auth = payment.payload.authorization;
+    const { v, r, s } = splitSignature(payment.payload.signature);
+    return [
+      auth.from,
+      BigInt(auth.value),
+      BigInt(auth.validAfter),
+      BigInt(auth.validBefore),
+      auth.nonce,
+      v,
+      r,
+      s,
+    ];
+  }
+
+  private toRequestTuple(request: ForwardRequest) {
+    return [
+      request.from,
+      request.to,
+      BigInt(request.value),
+      BigInt(request.gas),
+      BigInt(request.nonce),
+      BigInt(request.deadline),
+      request.data,
+    ];
+  }
+}
+
+// Singleton
+export const settlementService = new SettlementService();
@@ -0,0 +1,107 @@
+/**
+ * Surge Pricing Service
+ *
+ * Raises the markup while the relayer pool is saturated, its CRO inventory
+ * is running low or recent relays are failing, so spare capacity is not
+ * sold at the quiet-hours price. Curves and the cap come from SURGE_* env.
+ */
+
+import { formatEther } from "ethers";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { OutcomeWindow, SurgeInputs, SurgeResult, computeSurge } from "../utils/surge.js";
+import { relayerPool } from "./relayer-pool.service.js";
+import { walletService } from "./wallet.service.js";
+
+const RESERVE_REFRESH_MS = 60000;
+
+const NO_SURGE: SurgeResult = {
+  multiplier: 1,
+  components: { saturation: 1, reserve: 1, failures: 1 },
+  capped: false,
+};
+
+export class SurgeService {
+  private outcomes = new OutcomeWindow();
+  private reserveCro: number | null = null;
+  private reserveUpdatedAt: Date | null = null;
+  private lastMultiplier = 1;
+
+  constructor() {
+    if (env.SURGE_ENABLED) {
+      this.refreshReserve();
+      setInterval(() => this.refreshReserve(), RESERVE_REFRESH_MS);
+    }
+  }
+
+  /**
+   * Current surge multiplier and what drives it
+   */
+  getSurge(): SurgeResult {
+    if (!env.SURGE_ENABLED) return NO_SURGE;
+
+    const result = computeSurge(this.getInputs(), {
+      saturation: env.SURGE_SATURATION_CURVE,
+      reserve: env.SURGE_RESERVE_CURVE,
+      failures: env.SURGE_FAILURE_CURVE,
+      maxMultiplier: env.SURGE_MAX_MULTIPLIER,
+    });
+
+    if ((result.multiplier > 1) !== (this.lastMultiplier > 1)) {
+      logger.info(result.multiplier > 1 ? "Surge pricing active" : "Surge pricing ended", {
+        multiplier: result.multiplier,
+        components: result.components,
+      });
+    }
+    this.lastMultiplier = result.multiplier;
+    return result;
+  }
+
+  /**
+   * Record whether a relay was mined successfully (feeds the failure curve)
+   */
+  recordOutcome(ok: boolean): void {
+    this.outcomes.record(ok);
+  }
+
+  getStatus() {
+    return {
+      enabled: env.SURGE_ENABLED,
+      ...this.getSurge(),
+      inputs: this.getInputs(),
+      reserveUpdatedAt: this.reserveUpdatedAt,
+      recentRelays: this.outcomes.count,
+    };
+  }
+
+  private getInputs(): SurgeInputs {
+    const pool = relayerPool.getStats();
+    const inFlight = pool.relayers.reduce((sum, r) => sum + r.pendingTxCount, 0);
+    const queued = pool.queued.fast + pool.queued.normal + pool.queued.slow;
+    const capacity = pool.activeRelayers * env.RELAYER_MAX_IN_FLIGHT;
+
+    return {
+      saturation: capacity > 0 ? (inFlight + queued) / capacity : 0,
+      reserveCro: this.reserveCro,
+      failureRate: this.outcomes.failureRate(),
+    };
+  }
+
+  private async refreshReserve(): Promise<void> {
+    try {
+      const addresses = relayerPool.size > 0 ? relayerPool.getAddresses() : [walletService.address];
+      const balances = await Promise.all(
+        addresses.map((address) => walletService.rpcProvider.getBalance(address))
+      );
+      const total = balances.reduce((sum, b) => sum + b, 0n);
+      this.reserveCro = Number(formatEther(total));
+      this.reserveUpdatedAt = new Date();
+    } catch (error) {
+      // Keep the last reading
+      logger.debug("Surge reserve refresh failed", { error: error instanceof Error ? error.message : error });
+    }
+  }
+}
+
+// Singleton
+export const surgeService = new SurgeService();
@@ -1,10 +1,13 @@
-import { ethers, Transaction, TransactionResponse, TransactionReceipt } from "ethers";
+import { ethers, Interface, Transaction, TransactionResponse, TransactionReceipt, isError } from "ethers";
 import { env } from "../config/env.js";
 import { logger } from "../utils/logger.js";
 import { TransactionError, TX_ERROR_CODES } from "../utils/errors.js";
+import { COMMON_ERRORS, DecodedRevert, decodeRevert } from "../utils/revert.js";
 import { walletService } from "./wallet.service.js";
 import { pricingService, PriceQuote } from "./pricing.service.js";
 
+const KNOWN_ERRORS = new Interface(COMMON_ERRORS);
+
 export interface DecodedTransaction {
   from: string;
   to: string;
@@ -120,12 +123,17 @@ export class TransactionService {
 
       // Parse revert reason if available
       let reason = "Transaction will revert";
-      if (errorMessage.includes("revert")) {
+      let revert: DecodedRevert | undefined;
+      if (isError(error, "CALL_EXCEPTION") && error.data) {
+        revert = decodeRevert(error.data, KNOWN_ERRORS);
+        reason = revert.reason;
+      } else if (errorMessage.includes("revert")) {
         reason = errorMessage;
       }
 
       throw new TransactionError(reason, TX_ERROR_CODES.SIMULATION_FAILED, {
         simulation: errorMessage,
+        revert,
       });
     }
   }
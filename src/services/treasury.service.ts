@@ -0,0 +1,144 @@
+/**
+ * Treasury Service
+ *
+ * Keeps relayers funded from a separate treasury wallet (TREASURY_PRIVATE_KEY).
+ * The relayer pool's health check calls topUp for each relayer; one below
+ * TREASURY_TOPUP_BELOW_CRO is sent enough CRO to reach TREASURY_TARGET_CRO.
+ * Retired relayers sweep their CRO back here. Disabled when no treasury key
+ * is configured.
+ */
+
+import { Wallet, formatEther, parseEther } from "ethers";
+import { env } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { topUpAmount } from "../utils/relayer-health.js";
+import { walletService } from "./wallet.service.js";
+import { nonceService } from "./nonce.service.js";
+
+const MAX_RECENT_TOP_UPS = 20;
+
+export interface TopUp {
+  relayer: string;
+  amountCro: string;
+  txHash: string;
+  at: string;
+}
+
+class TreasuryService {
+  private wallet: Wallet | null;
+  private recent: TopUp[] = [];
+  private lastShortfall: string | null = null;
+
+  constructor() {
+    this.wallet = env.TREASURY_PRIVATE_KEY
+      ? new Wallet(env.TREASURY_PRIVATE_KEY, walletService.rpcProvider)
+      : null;
+  }
+
+  get isEnabled(): boolean {
+    return this.wallet !== null;
+  }
+
+  /**
+   * Top a relayer up to the target if it is below the threshold. Waits for
+   * the transfer to be mined; returns the amount sent (0 if none).
+   */
+  async topUp(relayer: string, balanceWei: bigint): Promise<bigint> {
+    if (!this.wallet) return 0n;
+
+    const amount = topUpAmount(
+      balanceWei,
+      parseEther(env.TREASURY_TOPUP_BELOW_CRO.toString()),
+      parseEther(env.TREASURY_TARGET_CRO.toString())
+    );
+    if (amount === 0n) return 0n;
+
+    const available = await walletService.rpcProvider.getBalance(this.wallet.address);
+    if (available < amount) {
+      this.lastShortfall = `Needed ${formatEther(amount)} CRO for ${relayer}, had ${formatEther(available)}`;
+      logger.warn("Treasury balance too low for relayer top-up", {
+        relayer,
+        amountCro: formatEther(amount),
+        treasuryCro: formatEther(available),
+      });
+      return 0n;
+    }
+
+    const wallet = this.wallet;
+    const tx = await nonceService.send(wallet, (nonce) =>
+      wallet.sendTransaction({ to: relayer, value: amount, nonce })
+    );
+    logger.info("Relayer top-up sent", { relayer, amountCro: formatEther(amount), txHash: tx.hash });
+
+    const receipt = await tx.wait();
+    if (receipt?.status !== 1) {
+      throw new Error(`Top-up transaction failed: ${tx.hash}`);
+    }
+
+    this.lastShortfall = null;
+    this.recent.unshift({
+      relayer,
+      amountCro: formatEther(amount),
+      txHash: tx.hash,
+      at: new Date().toISOString(),
+    });
+    this.recent.length = Math.min(this.recent.length, MAX_RECENT_TOP_UPS);
+    return amount;
+  }
+
+  /**
+   * Send a wallet's whole CRO balance, less the transfer's gas, to the
+   * treasury. Waits for it to be mined.
+   */
+  async sweep(from: Wallet): Promise<{ amount: bigint; txHash: string | null }> {
+    if (!this.wallet) {
+      throw new Error("No treasury configured to sweep to");
+    }
+
+    const provider = walletService.rpcProvider;
+    const [balance, { gasPrice }] = await Promise.all([provider.getBalance(from.address), provider.getFeeData()]);
+    if (gasPrice === null) {
+      throw new Error("Node returned no gas price");
+    }
+
+    // Legacy transaction so the fee is exactly gasLimit * gasPrice and nothing is left behind
+    const fee = 21000n * gasPrice;
+    if (balance <= fee) return { amount: 0n, txHash: null };
+    const amount = balance - fee;
+
+    const to = this.wallet.address;
+    const tx = await nonceService.send(from, (nonce) =>
+      from.sendTransaction({ to, value: amount, gasLimit: 21000n, gasPrice, type: 0, nonce })
+    );
+    logger.info("Relayer balance swept to treasury", { relayer: from.address, amountCro: formatEther(amount), txHash: tx.hash });
+
+    const receipt = await tx.wait();
+    if (receipt?.status !== 1) {
+      throw new Error(`Sweep transaction failed: ${tx.hash}`);
+    }
+    return { amount, txHash: tx.hash };
+  }
+
+  async getStatus() {
+    if (!this.wallet) return { enabled: false };
+
+    let balanceCro: string | null = null;
+    try {
+      balanceCro = formatEther(await walletService.rpcProvider.getBalance(this.wallet.address));
+    } catch {
+      // Reported as unknown
+    }
+    return {
+      enabled: true,
+      address: this.wallet.address,
+      balanceCro,
+      topUpBelowCro: env.TREASURY_TOPUP_BELOW_CRO,
+      targetCro: env.TREASURY_TARGET_CRO,
+      lastShortfall: this.lastShortfall,
+      recentTopUps: this.recent,
+    };
+  }
+}
+
+// Singleton
+export const treasuryService = new TreasuryService();
@@ -0,0 +1,287 @@
+/**
+ * Pending Transaction Monitor
+ *
+ * Watches relayer transactions until one version of them is mined. A
+ * transaction not mined within its priority's SLA is re-broadcast at the
+ * same nonce with bumped fees; one whose ForwardRequest deadline has passed,
+ * or that is still pending after INCLUSION_TIMEOUT_MS, is cancelled with a
+ * 0-value self-send so it can't hold up the relayer's later nonces. Every
+ * hash sent for a relay is recorded against the original.
+ */
+
+import { TransactionReceipt, TransactionRequest, TransactionResponse, Wallet } from "ethers";
+import { logger } from "../utils/logger.js";
+import { FeeOverrides, bumpFees } from "../utils/fees.js";
+import { PendingTxState, TxPolicy, nextAction } from "../utils/tx-monitor.js";
+import { Priority, PRIORITY_CONFIGS } from "./pricing.service.js";
+
+const POLL_INTERVAL_MS = 1000;
+const INCLUSION_TIMEOUT_MS = 5 * 60 * 1000; // Cancel after 5 minutes
+const NONCE_TAKEN_GRACE_MS = 10000; // Receipt lag before deciding a foreign tx used the nonce
+const MAX_RECORDS = 1000;
+
+export type RelayTxStatus = "pending" | "mined" | "reverted" | "cancelled" | "stuck" | "replaced";
+
+export interface RelayTxRecord {
+  id: string; // Hash of the first broadcast
+  relayer: string;
+  nonce: number;
+  priority: Priority;
+  status: RelayTxStatus;
+  transactions: Array<{ hash: string; kind: "original" | "speed_up" | "cancel"; sentAt: string }>;
+  minedHash: string | null;
+  deadline: string | null;
+  reason: string | null;
+  createdAt: string;
+  settledAt: string | null;
+}
+
+export interface TrackOptions {
+  priority: Priority;
+  deadline?: number; // ForwardRequest deadline (unix seconds)
+}
+
+interface PendingTx {
+  record: RelayTxRecord;
+  wallet: Wallet;
+  tx: TransactionRequest;
+  overrides: FeeOverrides; // Fees of the latest broadcast
+  state: PendingTxState;
+  nonceTakenAt: number | null;
+  resolve: (result: { receipt: TransactionReceipt; record: RelayTxRecord }) => void;
+  reject: (error: Error) => void;
+}
+
+export class TxMonitorService {
+  private pending = new Map<string, PendingTx>();
+  private records = new Map<string, RelayTxRecord>();
+  private recordIds = new Map<string, string>(); // Any hash → record id
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Watch a sent transaction. Resolves with the receipt of whichever
+   * version is mined (check record.status: a mined cancellation resolves
+   * too); rejects if the nonce can't be cleared.
+   */
+  track(
+    wallet: Wallet,
+    sent: TransactionResponse,
+    tx: TransactionRequest,
+    overrides: FeeOverrides,
+    options: TrackOptions
+  ): Promise<{ receipt: TransactionReceipt; record: RelayTxRecord }> {
+    const now = Date.now();
+    const record: RelayTxRecord = {
+      id: sent.hash,
+      relayer: wallet.address,
+      nonce: sent.nonce,
+      priority: options.priority,
+      status: "pending",
+      transactions: [{ hash: sent.hash, kind: "original", sentAt: new Date(now).toISOString() }],
+      minedHash: null,
+      deadline: options.deadline ? new Date(options.deadline * 1000).toISOString() : null,
+      reason: null,
+      createdAt: new Date(now).toISOString(),
+      settledAt: null,
+    };
+    this.store(record);
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(record.id, {
+        record,
+        wallet,
+        tx,
+        overrides,
+        state: {
+          sentAt: now,
+          lastSentAt: now,
+          bumps: 0,
+          cancelBumps: 0,
+          cancelling: false,
+          deadline: options.deadline ? options.deadline * 1000 : null,
+        },
+        nonceTakenAt: null,
+        resolve,
+        reject,
+      });
+      this.startPolling();
+    });
+  }
+
+  /**
+   * Record for a relay, by its original hash or any replacement's
+   */
+  getRecord(hash: string): RelayTxRecord | undefined {
+    const id = this.recordIds.get(hash.toLowerCase());
+    return id ? this.records.get(id) : undefined;
+  }
+
+  getStatus() {
+    const byStatus: Partial<Record<RelayTxStatus, number>> = {};
+    for (const record of this.records.values()) {
+      byStatus[record.status] = (byStatus[record.status] ?? 0) + 1;
+    }
+    return {
+      pending: this.pending.size,
+      recent: byStatus,
+      slaMs: {
+        slow: PRIORITY_CONFIGS.slow.bump.bumpAfterMs,
+        normal: PRIORITY_CONFIGS.normal.bump.bumpAfterMs,
+        fast: PRIORITY_CONFIGS.fast.bump.bumpAfterMs,
+      },
+      timeoutMs: INCLUSION_TIMEOUT_MS,
+    };
+  }
+
+  private startPolling(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      if (this.polling) return;
+      this.polling = true;
+      this.poll().finally(() => {
+        this.polling = false;
+      });
+    }, POLL_INTERVAL_MS);
+  }
+
+  private async poll(): Promise<void> {
+    for (const pending of [...this.pending.values()]) {
+      try {
+        await this.check(pending);
+      } catch (error) {
+        logger.error("Pending transaction check failed", { id: pending.record.id, error });
+      }
+    }
+    if (this.pending.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async check(pending: PendingTx): Promise<void> {
+    const { record, wallet } = pending;
+    const provider = wallet.provider!;
+
+    for (const { hash } of record.transactions) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        this.settle(pending, receipt);
+        return;
+      }
+    }
+
+    const now = Date.now();
+    const action = nextAction(pending.state, this.policyFor(record.priority), now);
+    if (action === "wait") return;
+
+    // Before replacing anything, make sure the nonce is still ours to use
+    if ((await provider.getTransactionCount(record.relayer, "latest")) > record.nonce) {
+      pending.nonceTakenAt ??= now;
+      if (now - pending.nonceTakenAt >= NONCE_TAKEN_GRACE_MS) {
+        this.fail(pending, "replaced", "Nonce was used by a transaction this relay did not send");
+      }
+      return;
+    }
+
+    if (action === "give_up") {
+      this.fail(pending, "stuck", `Cancellation not mined after ${pending.state.cancelBumps} bumps`);
+      return;
+    }
+
+    if (action === "cancel") {
+      pending.state.cancelling = true;
+      record.reason = pending.state.deadline !== null && now > pending.state.deadline
+        ? "Deadline passed"
+        : `Not mined after ${INCLUSION_TIMEOUT_MS / 1000}s`;
+      await this.replace(pending, "cancel");
+      return;
+    }
+
+    await this.replace(pending, pending.state.cancelling ? "cancel" : "speed_up");
+  }
+
+  /**
+   * Re-send at the same nonce with bumped fees: the original call for a
+   * speed-up, a 0-value self-send for a cancellation
+   */
+  private async replace(pending: PendingTx, kind: "speed_up" | "cancel"): Promise<void> {
+    const { record, wallet } = pending;
+    const { bump } = PRIORITY_CONFIGS[record.priority];
+    const overrides = bumpFees(pending.overrides, bump.bumpPercent);
+    const tx: TransactionRequest = kind === "cancel"
+      ? { to: wallet.address, value: 0n, data: "0x", gasLimit: 21000n }
+      : pending.tx;
+
+    const resend = kind === "cancel" && record.transactions.some((t) => t.kind === "cancel");
+
+    try {
+      const replacement = await wallet.sendTransaction({ ...tx, ...overrides, nonce: record.nonce });
+      pending.overrides = overrides;
+      pending.state.lastSentAt = Date.now();
+      if (kind === "speed_up") pending.state.bumps++;
+      if (resend) pending.state.cancelBumps++;
+      record.transactions.push({ hash: replacement.hash, kind, sentAt: new Date().toISOString() });
+      this.recordIds.set(replacement.hash.toLowerCase(), record.id);
+      logger.warn(kind === "cancel" ? "Relay transaction cancellation sent" : "Relay transaction bumped", {
+        id: record.id,
+        txHash: replacement.hash,
+        priority: record.priority,
+        nonce: record.nonce,
+        reason: kind === "cancel" ? record.reason : undefined,
+      });
+    } catch (error) {
+      // Usually an earlier version was just mined; the next poll will see it.
+      // Counted against the cancellation budget so a wallet that can't send gives up.
+      pending.state.lastSentAt = Date.now();
+      if (pending.state.cancelling) pending.state.cancelBumps++;
+      logger.warn("Replacement rejected", {
+        id: record.id,
+        kind,
+        nonce: record.nonce,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private settle(pending: PendingTx, receipt: TransactionReceipt): void {
+    const { record } = pending;
+    const mined = record.transactions.find((t) => t.hash === receipt.hash);
+    record.minedHash = receipt.hash;
+    record.status = mined?.kind === "cancel" ? "cancelled" : receipt.status === 1 ? "mined" : "reverted";
+    record.settledAt = new Date().toISOString();
+    this.pending.delete(record.id);
+    pending.resolve({ receipt, record });
+  }
+
+  private fail(pending: PendingTx, status: RelayTxStatus, reason: string): void {
+    const { record } = pending;
+    record.status = status;
+    record.reason = reason;
+    record.settledAt = new Date().toISOString();
+    this.pending.delete(record.id);
+    logger.error("Relay transaction abandoned", { id: record.id, nonce: record.nonce, status, reason });
+    pending.reject(new Error(`${reason} (${record.transactions.map((t) => t.hash).join(", ")})`));
+  }
+
+  private policyFor(priority: Priority): TxPolicy {
+    const { bump } = PRIORITY_CONFIGS[priority];
+    return { slaMs: bump.bumpAfterMs, maxBumps: bump.maxBumps, timeoutMs: INCLUSION_TIMEOUT_MS };
+  }
+
+  private store(record: RelayTxRecord): void {
+    this.records.set(record.id, record);
+    this.recordIds.set(record.id.toLowerCase(), record.id);
+
+    // Drop the oldest settled records
+    for (const [id, old] of this.records) {
+      if (this.records.size <= MAX_RECORDS) break;
+      if (old.status === "pending") continue;
+      this.records.delete(id);
+      for (const { hash } of old.transactions) this.recordIds.delete(hash.toLowerCase());
+    }
+  }
+}
+
+// Singleton
+export const txMonitor = new TxMonitorService();
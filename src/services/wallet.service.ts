@@ -1,8 +1,10 @@
-import { ethers, JsonRpcProvider, Wallet, formatEther, formatUnits } from "ethers";
+import { ethers, HDNodeWallet, JsonRpcProvider, Wallet, formatEther, formatUnits } from "ethers";
 import { env } from "../config/env.js";
 import { ERC20_ABI } from "../config/constants.js";
 import { logger } from "../utils/logger.js";
 import { InsufficientFundsError } from "../utils/errors.js";
+import { NetworkFees, planFees } from "../utils/fees.js";
+import { nonceService } from "./nonce.service.js";
 
 export interface WalletBalances {
   cro: string;
@@ -11,6 +13,14 @@ export interface WalletBalances {
   usdcRaw: bigint;
 }
 
+/**
+ * Relayer `index` under RELAYER_DERIVATION_PATH, from RELAYER_MNEMONIC
+ */
+export function deriveRelayerWallet(index: number, provider: JsonRpcProvider): Wallet {
+  const node = HDNodeWallet.fromPhrase(env.RELAYER_MNEMONIC!, undefined, `${env.RELAYER_DERIVATION_PATH}/${index}`);
+  return new Wallet(node.privateKey, provider);
+}
+
 export class WalletService {
   private provider: JsonRpcProvider;
   private relayerWallet: Wallet;
@@ -18,7 +28,10 @@ export class WalletService {
 
   constructor() {
     this.provider = new JsonRpcProvider(env.CRONOS_RPC_URL);
-    this.relayerWallet = new Wallet(env.RELAYER_PRIVATE_KEY, this.provider);
+    // With a mnemonic this is the pool's primary relayer (index 0)
+    this.relayerWallet = env.RELAYER_MNEMONIC
+      ? deriveRelayerWallet(0, this.provider)
+      : new Wallet(env.RELAYER_PRIVATE_KEY!, this.provider);
     this.usdcContract = new ethers.Contract(
       env.USDC_ADDRESS,
       ERC20_ABI,
@@ -73,9 +86,27 @@ export class WalletService {
     }
   }
 
+  /**
+   * Current base fee, suggested tip and legacy gas price
+   */
+  async getNetworkFees(): Promise<NetworkFees> {
+    const [block, feeData] = await Promise.all([
+      this.provider.getBlock("latest"),
+      this.provider.getFeeData(),
+    ]);
+
+    return {
+      baseFee: block?.baseFeePerGas ?? null,
+      priorityFee: feeData.maxPriorityFeePerGas ?? 0n,
+      gasPrice: feeData.gasPrice ?? 5000000000000n, // Default 5000 gwei
+    };
+  }
+
+  /**
+   * Expected price per gas right now: base fee + tip, or the legacy gas price
+   */
   async getGasPrice(): Promise<bigint> {
-    const feeData = await this.provider.getFeeData();
-    return feeData.gasPrice ?? 5000000000000n; // Default 5000 gwei
+    return planFees(await this.getNetworkFees(), 1, 1).expectedGasPrice;
   }
 
   async getNonce(): Promise<number> {
@@ -83,33 +114,29 @@ export class WalletService {
   }
 
   async sendTransaction(tx: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
-    // Get current nonce
-    const nonce = await this.getNonce();
-
-    // Get gas price
-    const gasPrice = await this.getGasPrice();
-
-    // Prepare transaction
-    const fullTx: ethers.TransactionRequest = {
-      ...tx,
-      nonce,
-      gasPrice,
-      chainId: env.CHAIN_ID,
-    };
-
-    logger.debug("Sending transaction", {
-      to: fullTx.to,
-      value: fullTx.value?.toString(),
-      gasLimit: fullTx.gasLimit?.toString(),
-      nonce,
+    // Type-2 fees at the suggested tip, unless the caller set fees
+    const hasFees = tx.gasPrice != null || tx.maxFeePerGas != null;
+    const fees = hasFees ? {} : planFees(await this.getNetworkFees(), 1, 1).overrides;
+
+    // Sign and send with a managed nonce
+    const response = await nonceService.send(this.relayerWallet, (nonce) => {
+      logger.debug("Sending transaction", {
+        to: tx.to,
+        value: tx.value?.toString(),
+        gasLimit: tx.gasLimit?.toString(),
+        nonce,
+      });
+      return this.relayerWallet.sendTransaction({
+        ...fees,
+        ...tx,
+        nonce,
+        chainId: env.CHAIN_ID,
+      });
     });
 
-    // Sign and send
-    const response = await this.relayerWallet.sendTransaction(fullTx);
-
     logger.info("Transaction sent", {
       txHash: response.hash,
-      nonce,
+      nonce: response.nonce,
     });
 
     return response;
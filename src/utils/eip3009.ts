@@ -0,0 +1,80 @@
+import { Signature, TypedDataDomain, verifyTypedData } from "ethers";
+
+/**
+ * EIP-3009 helpers shared by payment verification and settlement.
+ */
+
+export interface Eip3009Authorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+/**
+ * transferWithAuthorization can be submitted by anyone; receiveWithAuthorization
+ * only by the payee, which stops mempool observers from front-running it.
+ */
+export type AuthorizationType = "TransferWithAuthorization" | "ReceiveWithAuthorization";
+
+const AUTHORIZATION_FIELDS = [
+  { name: "from", type: "address" },
+  { name: "to", type: "address" },
+  { name: "value", type: "uint256" },
+  { name: "validAfter", type: "uint256" },
+  { name: "validBefore", type: "uint256" },
+  { name: "nonce", type: "bytes32" },
+];
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: AUTHORIZATION_FIELDS,
+};
+
+export const RECEIVE_WITH_AUTHORIZATION_TYPES = {
+  ReceiveWithAuthorization: AUTHORIZATION_FIELDS,
+};
+
+export function getAuthorizationTypes(primaryType: AuthorizationType) {
+  return primaryType === "ReceiveWithAuthorization"
+    ? RECEIVE_WITH_AUTHORIZATION_TYPES
+    : TRANSFER_WITH_AUTHORIZATION_TYPES;
+}
+
+/**
+ * Split a signature into v/r/s for the on-chain call.
+ * Accepts 65-byte (r + s + v) and 64-byte EIP-2098 compact (r + yParityAndS)
+ * signatures, and normalises v to 27/28 (some signers emit 0/1).
+ * Throws if the signature is malformed.
+ */
+export function splitSignature(signature: string): { v: number; r: string; s: string } {
+  const sig = Signature.from(signature);
+  return { v: sig.v, r: sig.r, s: sig.s };
+}
+
+/**
+ * Recover the address that signed a Transfer/ReceiveWithAuthorization message
+ */
+export function recoverAuthorizationSigner(
+  domain: TypedDataDomain,
+  authorization: Eip3009Authorization,
+  signature: string,
+  primaryType: AuthorizationType = "TransferWithAuthorization"
+): string {
+  const { v, r, s } = splitSignature(signature);
+
+  return verifyTypedData(
+    domain,
+    getAuthorizationTypes(primaryType),
+    {
+      from: authorization.from,
+      to: authorization.to,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce,
+    },
+    { v, r, s }
+  );
+}
@@ -43,6 +43,36 @@ export class InsufficientFundsError extends GasStationError {
   }
 }
 
+export class PriceUnavailableError extends GasStationError {
+  constructor(reason: string) {
+    super(`CRO/USD price unavailable: ${reason}`, "PRICE_UNAVAILABLE", 503, { reason });
+    this.name = "PriceUnavailableError";
+  }
+}
+
+export class ValueNotAllowedError extends GasStationError {
+  constructor(reason: string, value: string) {
+    super(reason, "VALUE_NOT_ALLOWED", 400, { value });
+    this.name = "ValueNotAllowedError";
+  }
+}
+
+// The relay transaction can't have taken effect: never sent, reverted or cancelled on-chain
+export class RelayNotExecutedError extends GasStationError {
+  constructor(message: string, txHash?: string) {
+    super(message, "RELAY_FAILED", 500, txHash ? { txHash } : undefined);
+    this.name = "RelayNotExecutedError";
+  }
+}
+
+// The relay transaction was broadcast but it is not known whether it was mined
+export class RelayPendingError extends GasStationError {
+  constructor(message: string, txHash: string) {
+    super(message, "RELAY_PENDING", 504, { txHash });
+    this.name = "RelayPendingError";
+  }
+}
+
 // Error codes for transaction failures
 export const TX_ERROR_CODES = {
   INVALID_SIGNATURE: "TX_INVALID_SIGNATURE",
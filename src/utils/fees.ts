@@ -0,0 +1,135 @@
+import { formatUnits } from "ethers";
+
+/**
+ * EIP-1559 fee math shared by quoting and relaying.
+ * A type-2 transaction pays baseFee + tip per gas (never more than
+ * maxFeePerGas), so that is what the agent is charged for. Networks without
+ * a base fee fall back to a legacy gasPrice.
+ */
+
+export interface NetworkFees {
+  baseFee: bigint | null;   // Latest block base fee; null on legacy networks
+  priorityFee: bigint;      // Suggested tip (eth_maxPriorityFeePerGas)
+  gasPrice: bigint;         // Legacy gas price
+}
+
+export type FeeOverrides =
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { type: 0; gasPrice: bigint };
+
+export interface FeePlan {
+  source: "fee_history" | "multiplier"; // How the tip (or legacy gas price) was chosen
+  overrides: FeeOverrides;
+  baseFee: bigint | null;
+  priorityFee: bigint;
+  maxFee: bigint;
+  expectedGasPrice: bigint; // baseFee + tip (type 2) or gasPrice (legacy)
+}
+
+// Base fee can rise 12.5% per block; 2x covers several full blocks
+export const BASE_FEE_HEADROOM = 2n;
+
+/**
+ * Scale a wei amount by a float multiplier, in basis points
+ */
+export function scaleFee(value: bigint, multiplier: number): bigint {
+  return (value * BigInt(Math.round(multiplier * 10000))) / 10000n;
+}
+
+/**
+ * Fees for one priority: the tip is scaled on type-2 networks, the whole
+ * gas price on legacy ones
+ */
+export function planFees(
+  network: NetworkFees,
+  priorityFeeMultiplier: number,
+  gasPriceMultiplier: number
+): FeePlan {
+  if (network.baseFee === null) {
+    const gasPrice = scaleFee(network.gasPrice, gasPriceMultiplier);
+    return {
+      source: "multiplier",
+      overrides: { type: 0, gasPrice },
+      baseFee: null,
+      priorityFee: 0n,
+      maxFee: gasPrice,
+      expectedGasPrice: gasPrice,
+    };
+  }
+
+  return planFeesFromTip(network.baseFee, scaleFee(network.priorityFee, priorityFeeMultiplier), "multiplier");
+}
+
+/**
+ * Type-2 fees for a given tip
+ */
+export function planFeesFromTip(
+  baseFee: bigint,
+  priorityFee: bigint,
+  source: FeePlan["source"] = "fee_history"
+): FeePlan {
+  const maxFee = baseFee * BASE_FEE_HEADROOM + priorityFee;
+  return {
+    source,
+    overrides: { type: 2, maxFeePerGas: maxFee, maxPriorityFeePerGas: priorityFee },
+    baseFee,
+    priorityFee,
+    maxFee,
+    expectedGasPrice: baseFee + priorityFee,
+  };
+}
+
+/**
+ * Tier tips from eth_feeHistory rewards (one row per block, one column per
+ * requested percentile): the median of each column over the window, made
+ * non-decreasing so a higher tier never tips less. Returns null when no
+ * block in the window has rewards.
+ */
+export function tipsFromFeeHistory(rewards: bigint[][], tiers: number): bigint[] | null {
+  const rows = rewards.filter((row) => row.length >= tiers);
+  if (rows.length === 0) return null;
+
+  const tips: bigint[] = [];
+  for (let i = 0; i < tiers; i++) {
+    const column = rows.map((row) => row[i]).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const mid = Math.floor(column.length / 2);
+    const median = column.length % 2 === 0 ? (column[mid - 1] + column[mid]) / 2n : column[mid];
+    tips.push(i > 0 && median < tips[i - 1] ? tips[i - 1] : median);
+  }
+  return tips;
+}
+
+/**
+ * Fee plan in gwei, for API responses
+ */
+export function describeFeePlan(plan: FeePlan) {
+  return {
+    type: plan.overrides.type,
+    source: plan.source,
+    baseFeeGwei: plan.baseFee === null ? null : formatUnits(plan.baseFee, "gwei"),
+    priorityFeeGwei: formatUnits(plan.priorityFee, "gwei"),
+    maxFeeGwei: formatUnits(plan.maxFee, "gwei"),
+    chargedGasPriceGwei: formatUnits(plan.expectedGasPrice, "gwei"),
+  };
+}
+
+// Nodes reject a same-nonce replacement unless every fee rises by at least 10%
+export const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+
+/**
+ * Fees for a same-nonce replacement, raised by `percent` (at least 10%)
+ */
+export function bumpFees(overrides: FeeOverrides, percent: number): FeeOverrides {
+  const multiplier = 1 + Math.max(percent, MIN_REPLACEMENT_BUMP_PERCENT) / 100;
+  // +1 wei so rounding down never lands exactly on the minimum
+  const bump = (value: bigint) => scaleFee(value, multiplier) + 1n;
+
+  if (overrides.type === 0) {
+    return { type: 0, gasPrice: bump(overrides.gasPrice) };
+  }
+  return {
+    type: 2,
+    maxFeePerGas: bump(overrides.maxFeePerGas),
+    maxPriorityFeePerGas: bump(overrides.maxPriorityFeePerGas),
+  };
+}
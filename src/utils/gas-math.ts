@@ -0,0 +1,75 @@
+import { getBytes } from "ethers";
+
+/**
+ * Gas accounting for meta-transactions relayed through MinimalForwarder.
+ * The agent signs `gas`, the limit the forwarder gives the inner call. The
+ * relayer's outer transaction must also cover the intrinsic cost, calldata,
+ * the forwarder's own work and the 1/64 of gas a CALL keeps back (EIP-150).
+ */
+
+export const TX_BASE_GAS = 21000n;
+export const CALLDATA_ZERO_BYTE_GAS = 4n;
+export const CALLDATA_NONZERO_BYTE_GAS = 16n;
+
+// MinimalForwarder.execute around the inner call: hashing, ecrecover,
+// nonce SSTORE (worst case: first use), Executed event, refund check
+export const FORWARDER_OVERHEAD_GAS = 50000n;
+
+// Headroom on the inner call's measured gas, as in PricingService.estimateGas
+export const FORWARD_GAS_BUFFER_PERCENT = 20n;
+
+/**
+ * Calldata cost (EIP-2028)
+ */
+export function calldataGas(data: string): bigint {
+  let gas = 0n;
+  for (const byte of getBytes(data)) {
+    gas += byte === 0 ? CALLDATA_ZERO_BYTE_GAS : CALLDATA_NONZERO_BYTE_GAS;
+  }
+  return gas;
+}
+
+/**
+ * Gas charged before a transaction's code runs
+ */
+export function intrinsicGas(data: string): bigint {
+  return TX_BASE_GAS + calldataGas(data);
+}
+
+/**
+ * Gas a caller must have left so a CALL can pass `gas` on: only 63/64 of
+ * the remainder is forwarded (rounded up)
+ */
+export function withCallReserve(gas: bigint): bigint {
+  return (gas * 64n + 62n) / 63n;
+}
+
+/**
+ * `gas` to sign into the ForwardRequest, from an eth_estimateGas of the
+ * inner call made as a top-level transaction (which includes an intrinsic
+ * cost the forwarder's internal CALL does not pay), plus headroom
+ */
+export function recommendForwardGas(innerTxEstimate: bigint, innerCalldata: string): bigint {
+  const intrinsic = intrinsicGas(innerCalldata);
+  const execution = innerTxEstimate > intrinsic ? innerTxEstimate - intrinsic : 0n;
+  return (execution * (100n + FORWARD_GAS_BUFFER_PERCENT) + 99n) / 100n;
+}
+
+/**
+ * Lowest outer gas limit that still hands the inner call its full `gas`.
+ * MinimalForwarder does not check this itself, so a node estimate alone can
+ * come back low enough for the inner call to run out of gas silently.
+ */
+export function outerGasFloor(executeCalldata: string, forwardGas: bigint): bigint {
+  return intrinsicGas(executeCalldata) + FORWARDER_OVERHEAD_GAS + withCallReserve(forwardGas);
+}
+
+/**
+ * Gas limit for the relayer's execute transaction: the node's estimate plus
+ * 20%, but never below outerGasFloor
+ */
+export function outerGasLimit(nodeEstimate: bigint, executeCalldata: string, forwardGas: bigint): bigint {
+  const buffered = (nodeEstimate * 120n) / 100n;
+  const floor = outerGasFloor(executeCalldata, forwardGas);
+  return buffered > floor ? buffered : floor;
+}
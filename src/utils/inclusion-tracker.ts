@@ -0,0 +1,93 @@
+/**
+ * Rolling record of how long relayed transactions took to be mined, per
+ * priority tier, so callers can see what each tier actually delivers.
+ */
+
+export interface InclusionSample {
+  inclusionMs: number; // First broadcast to receipt
+  bumps: number;       // Fee replacements needed
+}
+
+export interface InclusionStats {
+  count: number;
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  bumpedPercent: number | null; // Share of transactions that needed a bump
+}
+
+export interface Eta {
+  estimatedTime: string;          // Human-readable, e.g. "~12 sec"
+  p50Ms: number | null;
+  p95Ms: number | null;
+  samples: number;
+  source: "measured" | "default"; // "default" until enough samples exist
+}
+
+// Below this many samples the configured estimate is more honest
+export const MIN_ETA_SAMPLES = 5;
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export class InclusionTracker<Tier extends string> {
+  private samples = new Map<Tier, InclusionSample[]>();
+
+  constructor(private windowSize: number = 100) {}
+
+  record(tier: Tier, sample: InclusionSample): void {
+    const list = this.samples.get(tier) ?? [];
+    list.push(sample);
+    if (list.length > this.windowSize) list.shift();
+    this.samples.set(tier, list);
+  }
+
+  getStats(tier: Tier): InclusionStats {
+    const list = this.samples.get(tier) ?? [];
+    if (list.length === 0) {
+      return { count: 0, avgMs: null, p50Ms: null, p95Ms: null, bumpedPercent: null };
+    }
+
+    const times = list.map((s) => s.inclusionMs).sort((a, b) => a - b);
+    const bumped = list.filter((s) => s.bumps > 0).length;
+    return {
+      count: list.length,
+      avgMs: Math.round(times.reduce((sum, t) => sum + t, 0) / times.length),
+      p50Ms: percentile(times, 50),
+      p95Ms: percentile(times, 95),
+      bumpedPercent: Math.round((bumped / list.length) * 100),
+    };
+  }
+}
+
+/**
+ * "~N sec" or "~N min" for a duration
+ */
+export function formatEta(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 120) return `~${seconds} sec`;
+  return `~${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * ETA from measured inclusion times (the median), or the configured
+ * estimate while there are fewer than MIN_ETA_SAMPLES samples
+ */
+export function estimateEta(stats: InclusionStats, fallback: string): Eta {
+  if (stats.count < MIN_ETA_SAMPLES || stats.p50Ms === null) {
+    return { estimatedTime: fallback, p50Ms: stats.p50Ms, p95Ms: stats.p95Ms, samples: stats.count, source: "default" };
+  }
+  return {
+    estimatedTime: formatEta(stats.p50Ms),
+    p50Ms: stats.p50Ms,
+    p95Ms: stats.p95Ms,
+    samples: stats.count,
+    source: "measured",
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Nonce bookkeeping for one sending address. Nonces are handed out in
+ * order; one that was reserved but never broadcast becomes a hole, which
+ * the next reservation reuses (or a no-op fills) so later transactions
+ * aren't stuck behind it. The chain's pending count is the source of truth
+ * on resync. No I/O: NonceManager does the RPC calls.
+ */
+export class NonceTracker {
+  private next: number | null = null;
+  private reserved = new Set<number>(); // Handed out, broadcast result not known yet
+  private released = new Set<number>(); // Handed out, never broadcast
+
+  get initialized(): boolean {
+    return this.next !== null;
+  }
+
+  /**
+   * Start from the chain's pending transaction count
+   */
+  init(chainNonce: number): void {
+    this.next = chainNonce;
+    this.reserved.clear();
+    this.released.clear();
+  }
+
+  /**
+   * Reserve a nonce: the lowest hole if there is one, else the next new one
+   */
+  take(): number {
+    const next = this.requireInit();
+    const hole = this.holes()[0];
+    if (hole !== undefined) {
+      this.released.delete(hole);
+      this.reserved.add(hole);
+      return hole;
+    }
+
+    let nonce = next;
+    while (this.reserved.has(nonce)) nonce++;
+    this.reserved.add(nonce);
+    this.next = nonce + 1;
+    return nonce;
+  }
+
+  /**
+   * Reserve a specific hole (to fill it). False if it is taken or not a hole.
+   */
+  claim(nonce: number): boolean {
+    const next = this.requireInit();
+    if (this.reserved.has(nonce) || nonce >= next) return false;
+    this.released.delete(nonce);
+    this.reserved.add(nonce);
+    return true;
+  }
+
+  /**
+   * The transaction reached the node
+   */
+  sent(nonce: number): void {
+    this.reserved.delete(nonce);
+  }
+
+  /**
+   * The transaction was never broadcast. Trailing holes are simply handed
+   * out again; the rest are remembered.
+   */
+  release(nonce: number): void {
+    this.requireInit();
+    this.reserved.delete(nonce);
+    this.released.add(nonce);
+    while (this.released.has(this.next! - 1)) {
+      this.released.delete(this.next! - 1);
+      this.next!--;
+    }
+  }
+
+  /**
+   * Line up with the chain's pending count: nonces below it are used
+   * (possibly by another sender with the same key). Never moves back: a
+   * lower count means the node is missing a transaction, and handing its
+   * nonce out again could clash with later ones still queued. gap() finds it.
+   */
+  resync(chainNonce: number): void {
+    if (!this.initialized) {
+      this.init(chainNonce);
+      return;
+    }
+    if (this.next! < chainNonce) this.next = chainNonce;
+    for (const nonce of this.released) {
+      if (nonce < chainNonce) this.released.delete(nonce);
+    }
+  }
+
+  /**
+   * The nonce holding up our later transactions, if the chain is missing
+   * one we handed out and nobody is about to send
+   */
+  gap(chainNonce: number): number | null {
+    if (!this.initialized) return null;
+    return chainNonce < this.next! && !this.reserved.has(chainNonce) ? chainNonce : null;
+  }
+
+  /**
+   * Known holes, lowest first
+   */
+  holes(): number[] {
+    return [...this.released].sort((a, b) => a - b);
+  }
+
+  getStatus() {
+    return {
+      next: this.next,
+      reserved: [...this.reserved].sort((a, b) => a - b),
+      holes: this.holes(),
+    };
+  }
+
+  private requireInit(): number {
+    if (this.next === null) {
+      throw new Error("Nonce tracker not initialized");
+    }
+    return this.next;
+  }
+}
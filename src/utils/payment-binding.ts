@@ -0,0 +1,60 @@
+import { AbiCoder, TypedDataDomain, TypedDataEncoder, keccak256 } from "ethers";
+
+/**
+ * Binds an x402 payment to the meta-transaction it pays for: the EIP-3009
+ * authorization nonce must equal the EIP-712 hash of the ForwardRequest
+ * (or of the batch). A payment header can then only be used for that
+ * request, and only once, since USDC rejects a reused nonce.
+ */
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+export interface ForwardRequestFields {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  deadline: string;
+  data: string;
+}
+
+/**
+ * EIP-712 hash of a ForwardRequest under the forwarder's domain
+ */
+export function hashForwardRequest(domain: TypedDataDomain, request: ForwardRequestFields): string {
+  return TypedDataEncoder.hash(domain, FORWARD_REQUEST_TYPES, {
+    from: request.from,
+    to: request.to,
+    value: BigInt(request.value),
+    gas: BigInt(request.gas),
+    nonce: BigInt(request.nonce),
+    deadline: BigInt(request.deadline),
+    data: request.data,
+  });
+}
+
+/**
+ * Hash of a batch: keccak256(abi.encode(bytes32[] requestHashes)), in request order
+ */
+export function hashForwardRequestBatch(domain: TypedDataDomain, requests: ForwardRequestFields[]): string {
+  const hashes = requests.map((request) => hashForwardRequest(domain, request));
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["bytes32[]"], [hashes]));
+}
+
+/**
+ * Whether an authorization nonce commits to the given request/batch hash
+ */
+export function isPaymentBound(authorizationNonce: string | undefined, requestHash: string): boolean {
+  return !!authorizationNonce && authorizationNonce.toLowerCase() === requestHash.toLowerCase();
+}
@@ -0,0 +1,227 @@
+import { Interface, dataLength, dataSlice, getAddress, id, toBigInt } from "ethers";
+import { DecodedRevert, decodeRevert } from "./revert.js";
+
+/**
+ * Turns a simulated transaction into what an agent needs to see before it
+ * pays: the call tree, token Transfer/Approval events and CRO balance changes.
+ * Works on debug_traceCall (callTracer with logs) and eth_simulateV1 output.
+ */
+
+export const TRANSFER_TOPIC = id("Transfer(address,address,uint256)");
+export const APPROVAL_TOPIC = id("Approval(address,address,uint256)");
+export const APPROVAL_FOR_ALL_TOPIC = id("ApprovalForAll(address,address,bool)");
+
+// eth_simulateV1 (traceTransfers) reports CRO transfers as ERC-20 logs from this address (ERC-7528)
+export const NATIVE_TRANSFER_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+// Frame types that can move CRO (DELEGATECALL repeats its parent's value)
+const VALUE_FRAME_TYPES = new Set(["CALL", "CREATE", "CREATE2", "SELFDESTRUCT"]);
+
+export interface TraceLog {
+  address: string;
+  topics: string[];
+  data: string;
+  position?: string; // callTracer: index of the subcall this log precedes
+}
+
+// callTracer output (tracerConfig.withLog = true)
+export interface TraceFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  gasUsed?: string;
+  input?: string;
+  output?: string;
+  error?: string;
+  calls?: TraceFrame[];
+  logs?: TraceLog[];
+}
+
+export interface CallNode {
+  type: string;
+  from: string;
+  to: string | null;
+  value: string;
+  gasUsed: string;
+  selector: string | null; // First four bytes of the input
+  error?: string;
+  revert?: DecodedRevert;
+  calls: CallNode[];
+}
+
+export interface TokenEvent {
+  event: "Transfer" | "Approval" | "ApprovalForAll";
+  standard: "erc20" | "erc721";
+  token: string;
+  from: string;       // Owner, for approvals
+  to: string;         // Spender or operator, for approvals
+  amount?: string;    // ERC-20
+  tokenId?: string;   // ERC-721
+  approved?: boolean; // ApprovalForAll
+}
+
+export interface ValueTransfer {
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+export interface BalanceDelta {
+  account: string;
+  delta: string; // Wei, signed
+}
+
+/**
+ * The call tree with reverts decoded. Frames that failed keep their
+ * children so the agent can see where it went wrong.
+ */
+export function toCallTree(frame: TraceFrame, knownErrors?: Interface): CallNode {
+  const input = frame.input ?? "0x";
+  return {
+    type: frame.type,
+    from: getAddress(frame.from),
+    to: frame.to ? getAddress(frame.to) : null,
+    value: toBigInt(frame.value ?? "0x0").toString(),
+    gasUsed: toBigInt(frame.gasUsed ?? "0x0").toString(),
+    selector: dataLength(input) >= 4 ? dataSlice(input, 0, 4) : null,
+    error: frame.error,
+    revert: frame.error ? decodeRevert(frame.output, knownErrors) : undefined,
+    calls: (frame.calls ?? []).map((call) => toCallTree(call, knownErrors)),
+  };
+}
+
+/**
+ * Logs that survive, in execution order. A failed frame's logs are
+ * discarded with everything below it.
+ */
+export function collectLogs(frame: TraceFrame): TraceLog[] {
+  if (frame.error) return [];
+
+  const calls = frame.calls ?? [];
+  const logs = [...(frame.logs ?? [])].sort(
+    (a, b) => Number(a.position ?? calls.length) - Number(b.position ?? calls.length)
+  );
+  const ordered: TraceLog[] = [];
+  let next = 0;
+  for (const log of logs) {
+    const position = Number(log.position ?? calls.length);
+    while (next < position && next < calls.length) {
+      ordered.push(...collectLogs(calls[next++]));
+    }
+    ordered.push(log);
+  }
+  while (next < calls.length) {
+    ordered.push(...collectLogs(calls[next++]));
+  }
+  return ordered;
+}
+
+/**
+ * CRO moved by successful frames
+ */
+export function collectValueTransfers(frame: TraceFrame): ValueTransfer[] {
+  if (frame.error) return [];
+
+  const transfers: ValueTransfer[] = [];
+  const value = toBigInt(frame.value ?? "0x0");
+  if (value > 0n && frame.to && VALUE_FRAME_TYPES.has(frame.type)) {
+    transfers.push({ from: getAddress(frame.from), to: getAddress(frame.to), value });
+  }
+  for (const call of frame.calls ?? []) {
+    transfers.push(...collectValueTransfers(call));
+  }
+  return transfers;
+}
+
+/**
+ * ERC-7528 pseudo-logs from eth_simulateV1 as CRO transfers
+ */
+export function nativeTransfersFromLogs(logs: TraceLog[]): ValueTransfer[] {
+  return logs
+    .filter((log) => isNativeTransferLog(log))
+    .map((log) => ({
+      from: topicAddress(log.topics[1]),
+      to: topicAddress(log.topics[2]),
+      value: toBigInt(log.data),
+    }));
+}
+
+export function isNativeTransferLog(log: TraceLog): boolean {
+  return getAddress(log.address) === NATIVE_TRANSFER_ADDRESS &&
+    log.topics[0] === TRANSFER_TOPIC &&
+    log.topics.length === 3;
+}
+
+/**
+ * Decode ERC-20 and ERC-721 Transfer, Approval and ApprovalForAll events.
+ * ERC-721 indexes the token id (four topics), ERC-20 puts the amount in data.
+ */
+export function decodeTokenEvents(logs: TraceLog[]): { transfers: TokenEvent[]; approvals: TokenEvent[] } {
+  const transfers: TokenEvent[] = [];
+  const approvals: TokenEvent[] = [];
+
+  for (const log of logs) {
+    if (isNativeTransferLog(log)) continue;
+    const [topic, a, b, c] = log.topics;
+    try {
+      if (topic === APPROVAL_FOR_ALL_TOPIC && log.topics.length === 3) {
+        approvals.push({
+          event: "ApprovalForAll",
+          standard: "erc721",
+          token: getAddress(log.address),
+          from: topicAddress(a),
+          to: topicAddress(b),
+          approved: toBigInt(log.data) !== 0n,
+        });
+        continue;
+      }
+      if (topic !== TRANSFER_TOPIC && topic !== APPROVAL_TOPIC) continue;
+
+      const event: TokenEvent["event"] = topic === TRANSFER_TOPIC ? "Transfer" : "Approval";
+      if (log.topics.length === 4) {
+        const decoded: TokenEvent = {
+          event,
+          standard: "erc721",
+          token: getAddress(log.address),
+          from: topicAddress(a),
+          to: topicAddress(b),
+          tokenId: toBigInt(c).toString(),
+        };
+        (event === "Transfer" ? transfers : approvals).push(decoded);
+      } else if (log.topics.length === 3 && dataLength(log.data) === 32) {
+        const decoded: TokenEvent = {
+          event,
+          standard: "erc20",
+          token: getAddress(log.address),
+          from: topicAddress(a),
+          to: topicAddress(b),
+          amount: toBigInt(log.data).toString(),
+        };
+        (event === "Transfer" ? transfers : approvals).push(decoded);
+      }
+    } catch {
+      // Same topic, different shape: not a token event
+    }
+  }
+
+  return { transfers, approvals };
+}
+
+/**
+ * Net change per account, leaving out accounts that break even
+ */
+export function balanceDeltas(transfers: ValueTransfer[]): BalanceDelta[] {
+  const deltas = new Map<string, bigint>();
+  for (const { from, to, value } of transfers) {
+    deltas.set(from, (deltas.get(from) ?? 0n) - value);
+    deltas.set(to, (deltas.get(to) ?? 0n) + value);
+  }
+  return [...deltas]
+    .filter(([, delta]) => delta !== 0n)
+    .map(([account, delta]) => ({ account, delta: delta.toString() }));
+}
+
+function topicAddress(topic: string): string {
+  return getAddress(dataSlice(topic, 12));
+}
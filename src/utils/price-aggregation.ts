@@ -0,0 +1,77 @@
+/**
+ * Aggregates CRO/USD samples from several oracle sources: drops stale
+ * samples, takes the median of the rest, and trips when sources disagree.
+ * A manual price, when configured, overrides the result.
+ */
+
+export interface PriceSample {
+  source: string;
+  price: number;
+  timestamp: number; // ms
+}
+
+export interface AggregationOptions {
+  now: number;                 // ms
+  maxAgeMs: number;            // Older samples are ignored
+  maxDeviationPercent: number; // Max distance of any fresh sample from the median
+  minSources: number;          // Fresh samples needed to quote
+}
+
+export type AggregationResult =
+  | { ok: true; price: number; sources: string[]; deviationPercent: number }
+  | { ok: false; reason: string; sources: string[]; deviationPercent?: number };
+
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    throw new Error("median of an empty list");
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Largest distance of any value from the reference, in percent of the reference
+ */
+export function maxDeviationPercent(values: number[], reference: number): number {
+  return values.reduce((max, v) => Math.max(max, (Math.abs(v - reference) / reference) * 100), 0);
+}
+
+export function aggregatePrices(samples: PriceSample[], options: AggregationOptions): AggregationResult {
+  const fresh = samples.filter(
+    (s) => Number.isFinite(s.price) && s.price > 0 && options.now - s.timestamp <= options.maxAgeMs
+  );
+  const sources = fresh.map((s) => s.source);
+
+  if (fresh.length < options.minSources) {
+    return {
+      ok: false,
+      reason: `${fresh.length} fresh price source(s), ${options.minSources} required`,
+      sources,
+    };
+  }
+
+  const prices = fresh.map((s) => s.price);
+  const price = median(prices);
+  const deviationPercent = maxDeviationPercent(prices, price);
+
+  if (deviationPercent > options.maxDeviationPercent) {
+    return {
+      ok: false,
+      reason: `Price sources disagree by ${deviationPercent.toFixed(2)}% (max ${options.maxDeviationPercent}%)`,
+      sources,
+      deviationPercent,
+    };
+  }
+
+  return { ok: true, price, sources, deviationPercent };
+}
+
+/**
+ * The manual price wins whenever one is set, even over stale or disputed
+ * sources (that is what it is for); otherwise the aggregate stands
+ */
+export function applyManualPrice(aggregate: AggregationResult, manualPrice: number | null): AggregationResult {
+  if (manualPrice === null) return aggregate;
+  return { ok: true, price: manualPrice, sources: ["manual"], deviationPercent: 0 };
+}
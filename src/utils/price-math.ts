@@ -0,0 +1,137 @@
+import { formatUnits, parseUnits } from "ethers";
+
+/**
+ * Fixed-point pricing core. Gas cost, CRO/USD price and every multiplier
+ * are integers (wei, 12-decimal USD, basis points) and the USDC price is
+ * produced by a single division at the end. Every division rounds up, so
+ * rounding always favours the gas station, by at most 1 micro-USDC.
+ */
+
+export const USDC_DECIMALS = 6;
+export const CRO_PRICE_DECIMALS = 12;
+export const BPS = 10_000n; // 1x
+
+const WEI_PER_CRO = 10n ** 18n;
+const CRO_PRICE_SCALE = 10n ** BigInt(CRO_PRICE_DECIMALS);
+const USDC_SCALE = 10n ** BigInt(USDC_DECIMALS);
+
+// wei × price(12 dp) → micro-USDC
+const COST_DIVISOR = (WEI_PER_CRO * CRO_PRICE_SCALE) / USDC_SCALE;
+
+export interface PriceInputs {
+  gasUnits: bigint;
+  gasPrice: bigint;     // Wei per gas
+  croUsdPrice: bigint;  // USD per CRO, CRO_PRICE_DECIMALS decimals
+  markupBps: bigint;    // Base markup, e.g. 2000n for 20%
+  priorityBps: bigint;  // Tier's share of the markup, e.g. 5000n for slow
+  surgeBps: bigint;     // Surge multiplier, BPS = none
+  minPriceRaw: bigint;  // Floor in micro-USDC
+  maxPriceRaw: bigint;  // Cap in micro-USDC
+}
+
+export interface PriceBreakdown {
+  baseCostRaw: bigint;  // Gas cost in micro-USDC before markup (rounded up)
+  markupFactor: number; // Applied multiplier, for display only
+  priceRaw: bigint;     // Charged price in micro-USDC
+  bound: "min" | "max" | null; // Which limit, if any, set the price
+}
+
+/**
+ * a / b rounded up (a, b >= 0)
+ */
+export function divCeil(a: bigint, b: bigint): bigint {
+  if (b <= 0n) throw new Error("Division by non-positive value");
+  return (a + b - 1n) / b;
+}
+
+/**
+ * A float multiplier (1.2, 0.5) in basis points, rounded up
+ */
+export function toBps(multiplier: number): bigint {
+  if (!Number.isFinite(multiplier) || multiplier < 0) {
+    throw new Error(`Invalid multiplier: ${multiplier}`);
+  }
+  // Strip float noise (0.1 * 3) before rounding up
+  return BigInt(Math.ceil(Number((multiplier * 10000).toFixed(6))));
+}
+
+/**
+ * A USD/CRO rate from the oracle as a CRO_PRICE_DECIMALS fixed-point integer
+ */
+export function toCroPrice(usdPerCro: number): bigint {
+  if (!Number.isFinite(usdPerCro) || usdPerCro <= 0) {
+    throw new Error(`Invalid CRO price: ${usdPerCro}`);
+  }
+  return parseUnits(usdPerCro.toFixed(CRO_PRICE_DECIMALS), CRO_PRICE_DECIMALS);
+}
+
+/**
+ * A configured USD amount in micro-USDC
+ */
+export function toUsdcRaw(usd: number): bigint {
+  return parseUnits(usd.toFixed(USDC_DECIMALS), USDC_DECIMALS);
+}
+
+/**
+ * Scale an amount by several basis-point multipliers, rounding up once
+ */
+export function mulBpsCeil(value: bigint, ...bps: bigint[]): bigint {
+  const numerator = bps.reduce((acc, b) => acc * b, value);
+  return divCeil(numerator, BPS ** BigInt(bps.length));
+}
+
+/**
+ * Price a gas amount: gas × gasPrice × CRO/USD × (1 + markup × priority) × surge,
+ * then clamp to [min, max]
+ */
+export function computePrice(inputs: PriceInputs): PriceBreakdown {
+  const costWei = inputs.gasUnits * inputs.gasPrice;
+  const costUsd = costWei * inputs.croUsdPrice; // × 1e30 scale
+
+  // Markup factor scaled by BPS^3
+  const factor = (BPS * BPS + inputs.markupBps * inputs.priorityBps) * inputs.surgeBps;
+  const factorScale = BPS * BPS * BPS;
+
+  const baseCostRaw = divCeil(costUsd, COST_DIVISOR);
+  let priceRaw = divCeil(costUsd * factor, COST_DIVISOR * factorScale);
+
+  let bound: PriceBreakdown["bound"] = null;
+  if (priceRaw < inputs.minPriceRaw) {
+    priceRaw = inputs.minPriceRaw;
+    bound = "min";
+  }
+  if (priceRaw > inputs.maxPriceRaw) {
+    priceRaw = inputs.maxPriceRaw;
+    bound = "max";
+  }
+
+  return {
+    baseCostRaw,
+    markupFactor: Number(factor) / Number(factorScale),
+    priceRaw,
+    bound,
+  };
+}
+
+/**
+ * CRO (in wei) converted to micro-USDC at the oracle rate, rounded up.
+ * No markup: this is the CRO the relayer hands over, not gas.
+ */
+export function valueToUsdcRaw(valueWei: bigint, croUsdPrice: bigint): bigint {
+  return divCeil(valueWei * croUsdPrice, COST_DIVISOR);
+}
+
+/**
+ * Take a discount off a price, rounding the result up
+ */
+export function applyDiscount(priceRaw: bigint, discountBps: bigint): bigint {
+  return mulBpsCeil(priceRaw, BPS - discountBps);
+}
+
+/**
+ * micro-USDC as a fixed six-decimal string, e.g. "0.090000"
+ */
+export function formatUsdc(raw: bigint): string {
+  const [whole, fraction = ""] = formatUnits(raw, USDC_DECIMALS).split(".");
+  return `${whole}.${fraction.padEnd(USDC_DECIMALS, "0")}`;
+}
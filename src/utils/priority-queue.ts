@@ -0,0 +1,60 @@
+/**
+ * Small priority queue: lowest rank first, first-in first-out within a rank.
+ * Used to order requests waiting for a free relayer.
+ */
+
+interface QueueEntry<T> {
+  item: T;
+  rank: number;
+  seq: number;
+}
+
+export class PriorityQueue<T> {
+  private entries: QueueEntry<T>[] = [];
+  private seq = 0;
+
+  push(item: T, rank: number): void {
+    const entry = { item, rank, seq: this.seq++ };
+    // Insert after every entry with a lower or equal rank (keeps FIFO per rank)
+    let i = this.entries.length;
+    while (i > 0 && this.entries[i - 1].rank > rank) i--;
+    this.entries.splice(i, 0, entry);
+  }
+
+  shift(): T | undefined {
+    return this.entries.shift()?.item;
+  }
+
+  /**
+   * Waiting items in the order they would be shifted
+   */
+  items(): T[] {
+    return this.entries.map((e) => e.item);
+  }
+
+  includes(item: T): boolean {
+    return this.entries.some((e) => e.item === item);
+  }
+
+  remove(item: T): boolean {
+    const i = this.entries.findIndex((e) => e.item === item);
+    if (i === -1) return false;
+    this.entries.splice(i, 1);
+    return true;
+  }
+
+  /**
+   * Waiting items per rank
+   */
+  countByRank(): Map<number, number> {
+    const counts = new Map<number, number>();
+    for (const e of this.entries) {
+      counts.set(e.rank, (counts.get(e.rank) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  get length(): number {
+    return this.entries.length;
+  }
+}
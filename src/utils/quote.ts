@@ -0,0 +1,67 @@
+import { TypedDataDomain, TypedDataEncoder, verifyTypedData } from "ethers";
+
+/**
+ * EIP-712 signed price quotes. The server signs the quoted price, gas and
+ * expiry for one request hash, so an agent can check a quote offline
+ * (against the signer published at /meta/domain) before paying.
+ */
+
+export const QUOTE_TYPES = {
+  GasQuote: [
+    { name: "quoteId", type: "bytes32" },
+    { name: "requestHash", type: "bytes32" },
+    { name: "price", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "priority", type: "string" },
+    { name: "validUntil", type: "uint256" },
+  ],
+};
+
+export interface QuoteFields {
+  quoteId: string;
+  requestHash: string;
+  price: string;      // USDC base units
+  gas: string;
+  gasPrice: string;   // wei
+  priority: string;
+  validUntil: number; // unix seconds
+}
+
+/**
+ * Quote domain: chain-scoped, not tied to a contract
+ */
+export function getQuoteDomain(chainId: number): TypedDataDomain {
+  return {
+    name: "Agent Gas Station Quote",
+    version: "1",
+    chainId,
+  };
+}
+
+function toTypedQuote(quote: QuoteFields) {
+  return {
+    quoteId: quote.quoteId,
+    requestHash: quote.requestHash,
+    price: BigInt(quote.price),
+    gas: BigInt(quote.gas),
+    gasPrice: BigInt(quote.gasPrice),
+    priority: quote.priority,
+    validUntil: BigInt(quote.validUntil),
+  };
+}
+
+export function hashQuote(domain: TypedDataDomain, quote: QuoteFields): string {
+  return TypedDataEncoder.hash(domain, QUOTE_TYPES, toTypedQuote(quote));
+}
+
+/**
+ * Address that signed the quote
+ */
+export function recoverQuoteSigner(domain: TypedDataDomain, quote: QuoteFields, signature: string): string {
+  return verifyTypedData(domain, QUOTE_TYPES, toTypedQuote(quote), signature);
+}
+
+export function isQuoteExpired(quote: Pick<QuoteFields, "validUntil">, nowSeconds: number): boolean {
+  return nowSeconds > quote.validUntil;
+}
@@ -0,0 +1,94 @@
+/**
+ * Refund rules for payments collected before a relay that then failed.
+ *
+ * Rule syntax (one per failure class):
+ *   full         - refund everything the agent paid
+ *   partial:NN   - refund NN percent of what was paid
+ *   keep_fee     - refund nothing (the gas was spent on the agent's behalf)
+ */
+
+export type RefundFailureClass =
+  | "forwarder_revert"   // forwarder.execute reverted or could not be sent
+  | "inner_call_revert"  // forwarder succeeded but Executed reported success=false
+  | "deadline_expired"   // request deadline passed before execution
+  | "batch_item_failed"; // one item in a paid batch failed
+
+export type RefundRule =
+  | { type: "full" }
+  | { type: "partial"; percent: number }
+  | { type: "keep_fee" };
+
+export const REFUND_RULE_PATTERN = /^(full|keep_fee|partial:\d{1,3})$/;
+
+export function parseRefundRule(value: string): RefundRule {
+  if (value === "full") return { type: "full" };
+  if (value === "keep_fee") return { type: "keep_fee" };
+
+  const match = /^partial:(\d{1,3})$/.exec(value);
+  if (match) {
+    const percent = Number(match[1]);
+    if (percent > 100) {
+      throw new Error(`Refund percentage must be 0-100, got ${percent}`);
+    }
+    return { type: "partial", percent };
+  }
+
+  throw new Error(`Invalid refund rule "${value}" (expected full, partial:NN or keep_fee)`);
+}
+
+export function formatRefundRule(rule: RefundRule): string {
+  return rule.type === "partial" ? `partial:${rule.percent}` : rule.type;
+}
+
+/**
+ * Amount to refund (USDC base units) under a rule; rounds down
+ */
+export function computeRefundAmount(rule: RefundRule, paid: bigint): bigint {
+  switch (rule.type) {
+    case "full":
+      return paid;
+    case "partial":
+      return (paid * BigInt(rule.percent)) / 100n;
+    case "keep_fee":
+      return 0n;
+  }
+}
+
+/**
+ * Split a batch payment across items in proportion to each item's gas limit.
+ * Rounds down, so the shares never add up to more than was paid.
+ */
+export function splitBatchPayment(paid: bigint, gasLimits: bigint[]): bigint[] {
+  const totalGas = gasLimits.reduce((sum, gas) => sum + gas, 0n);
+  if (totalGas === 0n) {
+    return gasLimits.map(() => paid / BigInt(gasLimits.length));
+  }
+  return gasLimits.map((gas) => (paid * gas) / totalGas);
+}
+
+/**
+ * Split a batch payment into each item's gas and value shares. The USDC
+ * paid for CRO value goes to the items that send value, in proportion to
+ * it; the rest is split by gas limit. Rounds down.
+ */
+export function splitBatchCharge(
+  paid: bigint,
+  valueCost: bigint,
+  items: Array<{ gas: bigint; value: bigint }>
+): Array<{ gas: bigint; value: bigint }> {
+  const totalValue = items.reduce((sum, item) => sum + item.value, 0n);
+  const valuePaid = totalValue === 0n ? 0n : valueCost < paid ? valueCost : paid;
+  const gasShares = splitBatchPayment(paid - valuePaid, items.map((item) => item.gas));
+  return items.map((item, i) => ({
+    gas: gasShares[i],
+    value: totalValue === 0n ? 0n : (valuePaid * item.value) / totalValue,
+  }));
+}
+
+/**
+ * Whether a refund is still owed: there is something to send and it
+ * hasn't been confirmed on-chain or given up on
+ */
+export function isRefundOwed(refund: { status: string; refundAmount: string }): boolean {
+  return refund.status !== "confirmed" && refund.status !== "abandoned" && BigInt(refund.refundAmount) > 0n;
+}
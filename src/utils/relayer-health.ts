@@ -0,0 +1,88 @@
+/**
+ * Health of one relayer in the pool. A relayer whose CRO balance is below
+ * the minimum, or that has failed maxFailures relays in a row, is taken out
+ * of rotation: "draining" while its in-flight transactions finish, then
+ * "quarantined". Low balance lifts once the balance is back up (e.g. after a
+ * treasury top-up); a failure quarantine lifts after cooldownMs, with the
+ * failure count starting over. A retiring relayer stays "draining" until the
+ * pool removes it. No I/O: the pool feeds in balances and outcomes.
+ */
+
+export type RelayerStatus = "active" | "quarantined" | "draining";
+
+export interface RelayerHealthPolicy {
+  minBalanceWei: bigint; // Quarantine below this
+  maxFailures: number;   // Consecutive failed relays before quarantine
+  cooldownMs: number;    // Length of a failure quarantine
+}
+
+export class RelayerHealth {
+  status: RelayerStatus = "active";
+  reason: string | null = null;
+  balanceWei: bigint | null = null; // Last reading; null until first read
+  consecutiveFailures = 0;
+  retiring = false;
+  private failedUntil: number | null = null; // End of a failure quarantine (ms)
+  private failureReason: string | null = null;
+
+  constructor(private policy: RelayerHealthPolicy) {}
+
+  /**
+   * Outcome of a relay sent by this relayer
+   */
+  recordOutcome(ok: boolean, now: number): void {
+    if (ok) {
+      this.consecutiveFailures = 0;
+      return;
+    }
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= this.policy.maxFailures) {
+      this.failedUntil = now + this.policy.cooldownMs;
+      this.failureReason = `${this.consecutiveFailures} failed relays in a row`;
+      this.consecutiveFailures = 0;
+    }
+  }
+
+  /**
+   * Take the relayer out of rotation for good
+   */
+  retire(): void {
+    this.retiring = true;
+  }
+
+  setBalance(balanceWei: bigint): void {
+    this.balanceWei = balanceWei;
+  }
+
+  /**
+   * Re-evaluate the status. Returns true if it changed.
+   */
+  update(inFlight: number, now: number): boolean {
+    if (this.failedUntil !== null && now >= this.failedUntil) {
+      this.failedUntil = null;
+      this.failureReason = null;
+    }
+
+    const reason = this.retiring
+      ? "Retiring"
+      : this.balanceWei !== null && this.balanceWei < this.policy.minBalanceWei
+        ? "Low CRO balance"
+        : this.failureReason;
+    const status: RelayerStatus = reason === null
+      ? "active"
+      : inFlight > 0 || this.retiring ? "draining" : "quarantined";
+
+    const changed = status !== this.status || reason !== this.reason;
+    this.status = status;
+    this.reason = reason;
+    return changed;
+  }
+}
+
+/**
+ * CRO to send a relayer: enough to reach the target once it is below the
+ * threshold, else nothing
+ */
+export function topUpAmount(balanceWei: bigint, thresholdWei: bigint, targetWei: bigint): bigint {
+  return balanceWei < thresholdWei ? targetWei - balanceWei : 0n;
+}
@@ -0,0 +1,163 @@
+/**
+ * How the relayer pool picks a relayer for the next transaction. A strategy
+ * chooses among the active relayers; the pool only hands out a free one,
+ * so returning a busy relayer (sticky_agent) makes the request wait for that
+ * relayer, and returning null makes it wait for any.
+ *
+ *   least_busy       - fewest transactions in flight, longest idle first
+ *   round_robin      - the next free relayer after the last one used
+ *   weighted_balance - share of traffic in proportion to each relayer's CRO
+ *   sticky_agent     - all of an agent's transactions go to one relayer, in order
+ */
+
+export const RELAYER_STRATEGIES = ["least_busy", "round_robin", "weighted_balance", "sticky_agent"] as const;
+
+export type RelayerStrategyName = typeof RELAYER_STRATEGIES[number];
+
+export interface RelayerCandidate {
+  address: string;
+  free: boolean;            // Can take a transaction now
+  pendingTxCount: number;
+  lastUsed: number;         // ms; 0 if never used
+  balanceWei: bigint | null; // Last reading; null until first read
+}
+
+export interface RelayerStrategy {
+  readonly name: RelayerStrategyName;
+  select<T extends RelayerCandidate>(candidates: T[], agent?: string): T | null;
+  getStatus(): Record<string, unknown>;
+}
+
+const MILLI_CRO = 10n ** 15n;
+const MAX_STICKY_AGENTS = 10000;
+
+export class LeastBusyStrategy implements RelayerStrategy {
+  readonly name = "least_busy";
+
+  select<T extends RelayerCandidate>(candidates: T[]): T | null {
+    let best: T | null = null;
+    for (const c of candidates) {
+      if (!c.free) continue;
+      if (
+        !best ||
+        c.pendingTxCount < best.pendingTxCount ||
+        (c.pendingTxCount === best.pendingTxCount && c.lastUsed < best.lastUsed)
+      ) {
+        best = c;
+      }
+    }
+    return best;
+  }
+
+  getStatus() {
+    return {};
+  }
+}
+
+export class RoundRobinStrategy implements RelayerStrategy {
+  readonly name = "round_robin";
+  private last: string | null = null;
+
+  select<T extends RelayerCandidate>(candidates: T[]): T | null {
+    // Start after the last relayer used (from the top if it left the pool)
+    const start = candidates.findIndex((c) => c.address === this.last) + 1;
+    for (let i = 0; i < candidates.length; i++) {
+      const c = candidates[(start + i) % candidates.length];
+      if (c.free) {
+        this.last = c.address;
+        return c;
+      }
+    }
+    return null;
+  }
+
+  getStatus() {
+    return { last: this.last };
+  }
+}
+
+/**
+ * Smooth weighted round-robin over the free relayers, weighted by CRO
+ * balance: deterministic, and spreads picks evenly rather than in runs.
+ * Falls back to least-busy while no balance is known.
+ */
+export class WeightedBalanceStrategy implements RelayerStrategy {
+  readonly name = "weighted_balance";
+  private current = new Map<string, number>();
+  private fallback = new LeastBusyStrategy();
+
+  select<T extends RelayerCandidate>(candidates: T[]): T | null {
+    const weighted = candidates
+      .filter((c) => c.free && c.balanceWei !== null && c.balanceWei >= MILLI_CRO)
+      .map((c) => ({ c, weight: Number(c.balanceWei! / MILLI_CRO) }));
+    if (weighted.length === 0) return this.fallback.select(candidates);
+
+    const total = weighted.reduce((sum, w) => sum + w.weight, 0);
+    let best: { c: T; score: number } | null = null;
+    for (const { c, weight } of weighted) {
+      const score = (this.current.get(c.address) ?? 0) + weight;
+      this.current.set(c.address, score);
+      if (!best || score > best.score) best = { c, score };
+    }
+    this.current.set(best!.c.address, best!.score - total);
+    return best!.c;
+  }
+
+  getStatus() {
+    return {};
+  }
+}
+
+/**
+ * Keeps each agent on one relayer so its transactions are sent (and mined)
+ * in the order they were received. A new agent, or one whose relayer left
+ * rotation, is assigned the least-busy free relayer. Requests without an
+ * agent are served least-busy.
+ */
+export class StickyAgentStrategy implements RelayerStrategy {
+  readonly name = "sticky_agent";
+  private assignments = new Map<string, string>(); // Agent → relayer address, least recent first
+  private fallback = new LeastBusyStrategy();
+
+  constructor(private maxAgents = MAX_STICKY_AGENTS) {}
+
+  select<T extends RelayerCandidate>(candidates: T[], agent?: string): T | null {
+    if (!agent) return this.fallback.select(candidates);
+
+    const key = agent.toLowerCase();
+    const assigned = this.assignments.get(key);
+    const chosen = candidates.find((c) => c.address === assigned) ?? this.fallback.select(candidates);
+    if (!chosen) return null;
+
+    this.assignments.delete(key);
+    this.assignments.set(key, chosen.address);
+    if (this.assignments.size > this.maxAgents) {
+      this.assignments.delete(this.assignments.keys().next().value!);
+    }
+    return chosen;
+  }
+
+  /**
+   * Relayer an agent is assigned to, if any
+   */
+  assignedTo(agent: string): string | undefined {
+    return this.assignments.get(agent.toLowerCase());
+  }
+
+  getStatus() {
+    return { agents: this.assignments.size };
+  }
+}
+
+export function createRelayerStrategy(name: RelayerStrategyName): RelayerStrategy {
+  switch (name) {
+    case "least_busy":
+      return new LeastBusyStrategy();
+    case "round_robin":
+      return new RoundRobinStrategy();
+    case "weighted_balance":
+      return new WeightedBalanceStrategy();
+    case "sticky_agent":
+      return new StickyAgentStrategy();
+  }
+}
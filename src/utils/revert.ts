@@ -0,0 +1,96 @@
+import { AbiCoder, Interface, dataLength, dataSlice } from "ethers";
+
+/**
+ * Revert data to something an agent can act on: Error(string) reasons,
+ * Panic(uint256) codes and custom errors from ABIs we know.
+ */
+
+export const ERROR_SELECTOR = "0x08c379a0"; // Error(string)
+export const PANIC_SELECTOR = "0x4e487b71"; // Panic(uint256)
+
+// Custom errors worth recognising in any target: OpenZeppelin 5 tokens and access control
+export const COMMON_ERRORS = [
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error EnforcedPause()",
+  "error ReentrancyGuardReentrantCall()",
+];
+
+// Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "corrupted storage byte array",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function",
+};
+
+export interface DecodedRevert {
+  kind: "error" | "panic" | "custom" | "empty" | "unknown";
+  reason: string;
+  selector: string | null;
+  name?: string;       // Custom error name
+  args?: string[];     // Custom error arguments
+  panicCode?: number;
+  data: string;
+}
+
+/**
+ * Decode revert data, trying Error(string), Panic(uint256), then the custom
+ * errors in `knownErrors`
+ */
+export function decodeRevert(data: string | null | undefined, knownErrors?: Interface): DecodedRevert {
+  const raw = data ?? "0x";
+  if (raw === "0x" || dataLength(raw) === 0) {
+    return { kind: "empty", reason: "Reverted without a reason (or ran out of gas)", selector: null, data: raw };
+  }
+  if (dataLength(raw) < 4) {
+    return { kind: "unknown", reason: "Reverted with malformed data", selector: null, data: raw };
+  }
+
+  const selector = dataSlice(raw, 0, 4);
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(raw, 4));
+      return { kind: "error", reason: message, selector, data: raw };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(raw, 4));
+      const panicCode = Number(code);
+      const description = PANIC_REASONS[panicCode] ?? "unknown panic";
+      return {
+        kind: "panic",
+        reason: `Panic 0x${panicCode.toString(16).padStart(2, "0")}: ${description}`,
+        selector,
+        panicCode,
+        data: raw,
+      };
+    }
+    const parsed = knownErrors?.parseError(raw);
+    if (parsed) {
+      const args = parsed.args.map((arg) => String(arg));
+      return {
+        kind: "custom",
+        reason: `${parsed.name}(${args.join(", ")})`,
+        selector,
+        name: parsed.name,
+        args,
+        data: raw,
+      };
+    }
+  } catch {
+    // Selector matched but the payload didn't decode
+  }
+
+  return { kind: "unknown", reason: `Reverted with unrecognised error ${selector}`, selector, data: raw };
+}
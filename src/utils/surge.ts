@@ -0,0 +1,96 @@
+/**
+ * Surge pricing: a multiplier on the markup that rises when relayer
+ * capacity is saturated, CRO inventory runs low or relays keep failing.
+ * Each input maps to a multiplier through a linear curve; the product is
+ * capped.
+ */
+
+export interface SurgeCurve {
+  start: number; // Input value where surging begins (multiplier 1)
+  full: number;  // Input value where the curve reaches max; below start for falling inputs
+  max: number;   // Multiplier at and beyond full
+}
+
+export interface SurgeInputs {
+  saturation: number;         // (in flight + queued) / active relayers
+  reserveCro: number | null;  // CRO held by the pool; null until first read
+  failureRate: number | null; // Share of recent relays that failed; null with too few samples
+}
+
+export interface SurgeCurves {
+  saturation: SurgeCurve;
+  reserve: SurgeCurve;
+  failures: SurgeCurve;
+  maxMultiplier: number;
+}
+
+export interface SurgeResult {
+  multiplier: number;
+  components: {
+    saturation: number;
+    reserve: number;
+    failures: number;
+  };
+  capped: boolean;
+}
+
+/**
+ * Multiplier for one input: 1 before `start`, `max` past `full`, linear in
+ * between. Works for rising inputs (start < full) and falling ones
+ * (start > full, e.g. a balance running down).
+ */
+export function curveMultiplier(value: number, curve: SurgeCurve): number {
+  if (curve.start === curve.full) {
+    return value >= curve.full ? curve.max : 1;
+  }
+  const progress = (value - curve.start) / (curve.full - curve.start);
+  const clamped = Math.min(1, Math.max(0, progress));
+  return 1 + (curve.max - 1) * clamped;
+}
+
+/**
+ * Combined multiplier: the product of each input's curve, capped at
+ * maxMultiplier. Unknown inputs do not surge.
+ */
+export function computeSurge(inputs: SurgeInputs, curves: SurgeCurves): SurgeResult {
+  const components = {
+    saturation: curveMultiplier(inputs.saturation, curves.saturation),
+    reserve: inputs.reserveCro === null ? 1 : curveMultiplier(inputs.reserveCro, curves.reserve),
+    failures: inputs.failureRate === null ? 1 : curveMultiplier(inputs.failureRate, curves.failures),
+  };
+  const product = components.saturation * components.reserve * components.failures;
+  const multiplier = Math.min(product, curves.maxMultiplier);
+
+  return {
+    multiplier: Math.round(multiplier * 1000) / 1000,
+    components,
+    capped: product > curves.maxMultiplier,
+  };
+}
+
+/**
+ * Rolling success/failure record of the most recent relays
+ */
+export class OutcomeWindow {
+  private outcomes: boolean[] = [];
+
+  constructor(private windowSize: number = 50, private minSamples: number = 5) {}
+
+  record(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.windowSize) this.outcomes.shift();
+  }
+
+  /**
+   * Failed share of the window, or null with fewer than minSamples
+   */
+  failureRate(): number | null {
+    if (this.outcomes.length < this.minSamples) return null;
+    const failed = this.outcomes.filter((ok) => !ok).length;
+    return failed / this.outcomes.length;
+  }
+
+  get count(): number {
+    return this.outcomes.length;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * What to do with a relayer transaction that has not been mined yet.
+ * Each priority has an SLA: past it the transaction is re-sent at the same
+ * nonce with higher fees, up to maxBumps times. Once the agent's deadline
+ * has passed (the forwarder would revert it anyway) or the overall timeout
+ * is hit, it is cancelled instead: a 0-value self-send at that nonce, which
+ * is itself bumped until mined, up to MAX_CANCEL_BUMPS.
+ */
+
+export const MAX_CANCEL_BUMPS = 5;
+
+export interface TxPolicy {
+  slaMs: number;      // Time allowed per broadcast before a bump
+  maxBumps: number;   // Speed-ups before waiting out the timeout
+  timeoutMs: number;  // From the first broadcast, before cancelling
+}
+
+export interface PendingTxState {
+  sentAt: number;          // First broadcast (ms)
+  lastSentAt: number;      // Latest broadcast, original or replacement (ms)
+  bumps: number;           // Speed-ups sent
+  cancelBumps: number;     // Re-sent cancellations
+  cancelling: boolean;
+  deadline: number | null; // Agent's ForwardRequest deadline (ms)
+}
+
+export type TxAction = "wait" | "bump" | "cancel" | "give_up";
+
+export function nextAction(state: PendingTxState, policy: TxPolicy, now: number): TxAction {
+  const overdue = now - state.lastSentAt >= policy.slaMs;
+
+  if (state.cancelling) {
+    if (!overdue) return "wait";
+    return state.cancelBumps < MAX_CANCEL_BUMPS ? "bump" : "give_up";
+  }
+
+  if (state.deadline !== null && now > state.deadline) return "cancel";
+  if (now - state.sentAt >= policy.timeoutMs) return "cancel";
+  if (overdue && state.bumps < policy.maxBumps) return "bump";
+  return "wait";
+}
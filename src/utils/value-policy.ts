@@ -0,0 +1,36 @@
+import { formatEther } from "ethers";
+
+/**
+ * What to do with CRO `value` in a ForwardRequest. The relayer sends that
+ * CRO out of its own balance, so it is either priced in, tolerated up to
+ * a cap, or refused.
+ *
+ *   charge - add value × CRO/USD to the price (up to the cap)
+ *   cap    - relay value up to the cap without charging for it
+ *   reject - refuse any request with value
+ */
+
+export type ValuePolicy = "charge" | "cap" | "reject";
+
+export type ValueCheck =
+  | { allowed: true; charged: boolean }
+  | { allowed: false; reason: string };
+
+export function checkValue(value: bigint, policy: ValuePolicy, maxValueWei: bigint): ValueCheck {
+  if (value < 0n) {
+    return { allowed: false, reason: "Value cannot be negative" };
+  }
+  if (value === 0n) {
+    return { allowed: true, charged: false };
+  }
+  if (policy === "reject") {
+    return { allowed: false, reason: "This relayer does not send CRO value on behalf of agents" };
+  }
+  if (value > maxValueWei) {
+    return {
+      allowed: false,
+      reason: `Value ${formatEther(value)} CRO exceeds the ${formatEther(maxValueWei)} CRO limit`,
+    };
+  }
+  return { allowed: true, charged: policy === "charge" };
+}